@@ -0,0 +1,433 @@
+import { DslError, RenderError } from "./errors.js";
+import { applyFilters } from "./filters.js";
+import { escapeHtml } from "./dsl-utils.js";
+import { prepareAst } from "./renderer.js";
+import type {
+  PreparedAst,
+  PreparedAttribute,
+  PreparedElement,
+  PreparedIteration,
+  RenderOptions,
+} from "./renderer.js";
+import { DEFAULT_SANITIZE_POLICY, sanitizeAttributeValue } from "./sanitize-policy.js";
+import type { ResolvedSanitizePolicy, SanitizePolicy } from "./sanitize-policy.js";
+import type { ConditionExpression, DataType, DslNode, ElementNode, InterpolationSegment, TextNode } from "./types.js";
+
+/** A generated render function; the output is identical to `renderAst`. */
+export type RenderFunction = (data: Record<string, unknown>, options?: RenderOptions) => string;
+
+/** Helpers the generated source expects as its `runtime` parameter. */
+export interface CodegenRuntime {
+  applyFilters: typeof applyFilters;
+  escapeHtml: typeof escapeHtml;
+  /** Re-checks an interpolated attribute value; undefined drops the attribute. */
+  sanitizeAttribute: (name: string, value: string) => string | undefined;
+}
+
+/** The runtime for generated source, enforcing `policy` on interpolated attributes. */
+export function createCodegenRuntime(policy: ResolvedSanitizePolicy = DEFAULT_SANITIZE_POLICY): CodegenRuntime {
+  return {
+    applyFilters,
+    escapeHtml,
+    sanitizeAttribute: (name, value) => sanitizeAttributeValue(name, value, policy),
+  };
+}
+
+const ORDERING_HELPERS: Record<string, string> = {
+  "<": "lt",
+  "<=": "le",
+  ">": "gt",
+  ">=": "ge",
+};
+
+/** Maps an alias (or a scope variable such as `$index`) to the JS expression that holds it. */
+type Scope = Map<string, string>;
+
+interface SwitchSelection {
+  variable: string;
+  indices: Map<DslNode, number>;
+}
+
+interface EmitState {
+  elements: WeakMap<ElementNode, PreparedElement>;
+  lines: string[];
+  constants: string[];
+  dataTypes: Set<DataType>;
+  pending: string;
+  depth: number;
+  counter: number;
+}
+
+/**
+ * Generate the source of a function body that takes a `runtime`
+ * (`CodegenRuntime`) and returns `render(data, options)` for this template.
+ */
+export function generateRenderSource(root: ElementNode, policy?: SanitizePolicy): string {
+  return generatePreparedSource(prepareAst(root, policy));
+}
+
+/** Compile a template AST into a JavaScript render function. */
+export function compileRenderFunction(root: ElementNode, policy?: SanitizePolicy): RenderFunction {
+  return compilePreparedAst(prepareAst(root, policy));
+}
+
+export function compilePreparedAst(prepared: PreparedAst): RenderFunction {
+  let generated: (data: Record<string, unknown>, options?: RenderOptions) => string;
+  try {
+    const factory = new Function("runtime", generatePreparedSource(prepared)) as (
+      runtime: CodegenRuntime
+    ) => typeof generated;
+    generated = factory(createCodegenRuntime(prepared.policy));
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+
+  return (data, options = {}) => {
+    try {
+      return generated(data, options);
+    } catch (err) {
+      if (err instanceof DslError) throw err;
+      throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
+    }
+  };
+}
+
+function generatePreparedSource(prepared: PreparedAst): string {
+  const state: EmitState = {
+    elements: prepared.elements,
+    lines: [],
+    constants: [],
+    dataTypes: new Set(),
+    pending: "",
+    depth: 1,
+    counter: 0,
+  };
+
+  emitElement(prepared.root, new Map(), state);
+  flush(state);
+
+  const contexts = [...state.dataTypes].map(
+    (dataType) => `  const ctx_${dataType} = { dataType: ${JSON.stringify(dataType)}, timezone, strict };`
+  );
+
+  return [
+    '"use strict";',
+    "const { applyFilters, escapeHtml, sanitizeAttribute } = runtime;",
+    "const comparable = (l, r) =>",
+    '  (typeof l === "number" && typeof r === "number") || (typeof l === "string" && typeof r === "string");',
+    "const lt = (l, r) => comparable(l, r) && l < r;",
+    "const le = (l, r) => comparable(l, r) && l <= r;",
+    "const gt = (l, r) => comparable(l, r) && l > r;",
+    "const ge = (l, r) => comparable(l, r) && l >= r;",
+    'const strlen = (v) => (typeof v === "string" ? v.length : undefined);',
+    ...state.constants,
+    "return function render(data, options) {",
+    `  const timezone = options?.timezone ?? ${JSON.stringify(prepared.globalConfig.timezone)};`,
+    "  const strict = options?.strictDates ?? false;",
+    ...contexts,
+    '  let out = "";',
+    "  let v, x, s;",
+    ...state.lines,
+    "  return out;",
+    "};",
+  ].join("\n");
+}
+
+function emitElement(node: ElementNode, scope: Scope, state: EmitState): void {
+  const prepared = getPrepared(node, state);
+  if (prepared.iteration) {
+    emitIteration(node, prepared, prepared.iteration, scope, state);
+    return;
+  }
+  emitElementOnce(node, prepared, scope, state, true);
+}
+
+function emitIteration(
+  node: ElementNode,
+  prepared: PreparedElement,
+  iteration: PreparedIteration,
+  scope: Scope,
+  state: EmitState
+): void {
+  const id = state.counter++;
+  const [list, length, total, index, item, page, parent] = ["l", "e", "t", "i", "a", "p", "q"].map(
+    (prefix) => `${prefix}${id}`
+  );
+
+  code(state, `const ${list} = ${lookup(iteration.path, scope)};`);
+  open(state, `if (Array.isArray(${list})) {`);
+  code(state, `const ${length} = Math.min(${list}.length, ${iteration.maxCount});`);
+  code(state, `const ${total} = Math.max(${length}, ${iteration.fixedCount});`);
+  open(state, `for (let ${index} = 0; ${index} < ${total}; ${index}++) {`);
+  code(state, `const ${item} = ${index} < ${length} ? ${list}[${index}] : {};`);
+  code(state, `const ${page} = { index: ${index}, number: ${index} + 1, count: ${total} };`);
+
+  // The same scope variables as iterationScopeVariables; $parent only inside another iteration.
+  const rowScope: Scope = new Map(scope);
+  if (scope.has("$index")) {
+    const outer = ["$index", "$first", "$last", "$page", "$parent"].map(
+      (name) => `${name}: ${scope.get(name) ?? "undefined"}`
+    );
+    code(state, `const ${parent} = { ${outer.join(", ")} };`);
+    rowScope.set("$parent", parent);
+  }
+  rowScope.set("$index", index);
+  rowScope.set("$first", `(${index} === 0)`);
+  rowScope.set("$last", `(${index} === ${total} - 1)`);
+  rowScope.set("$page", page);
+  rowScope.set(iteration.alias, item);
+  emitElementOnce(node, prepared, rowScope, state, true);
+
+  close(state);
+  close(state);
+}
+
+function emitElementOnce(
+  node: ElementNode,
+  prepared: PreparedElement,
+  scope: Scope,
+  state: EmitState,
+  checkCondition: boolean
+): void {
+  if (node.tagName === "meta") {
+    return;
+  }
+
+  const guard = checkCondition ? prepared.condition : undefined;
+  if (guard) {
+    open(state, `if (${condition(guard, scope)}) {`);
+  }
+
+  text(state, `<${node.tagName}`);
+  const attributes = prepared.style ? [...prepared.attributes, prepared.style] : prepared.attributes;
+  for (const attribute of attributes) {
+    if (typeof attribute === "string") {
+      text(state, ` ${attribute}`);
+    } else {
+      emitAttribute(attribute, scope, state);
+    }
+  }
+  text(state, ">");
+
+  if (!prepared.isVoid) {
+    const selection = prepared.switchPath ? emitSwitchSelection(node, prepared.switchPath, scope, state) : undefined;
+    emitChildren(node.children, scope, state, selection);
+    text(state, `</${node.tagName}>`);
+  }
+
+  if (guard) {
+    close(state);
+  }
+}
+
+/** Mirror `selectSwitchCase`: store the index of the child to keep in a variable. */
+function emitSwitchSelection(node: ElementNode, path: string, scope: Scope, state: EmitState): SwitchSelection {
+  const id = state.counter++;
+  const labels = new Map<string, number>();
+  const indices = new Map<DslNode, number>();
+  let fallback = -1;
+
+  node.children.forEach((child, index) => {
+    if (child.type !== "element") return;
+    const label = child.attributes["data-case"];
+    const isDefault = child.attributes["data-default"] !== undefined;
+    if (label === undefined && !isDefault) return;
+
+    indices.set(child, index);
+    if (label !== undefined && !labels.has(label.trim())) {
+      labels.set(label.trim(), index);
+    }
+    if (isDefault && fallback === -1) {
+      fallback = index;
+    }
+  });
+
+  state.constants.push(`const m${id} = new Map(${JSON.stringify([...labels])});`);
+  code(state, `const s${id} = ${lookup(path, scope)};`);
+  code(state, `const k${id} = s${id} == null ? ${fallback} : m${id}.get(String(s${id})) ?? ${fallback};`);
+
+  return { variable: `k${id}`, indices };
+}
+
+/** Mirror `renderChildren`, including data-if / data-else-if / data-else chains. */
+function emitChildren(
+  children: DslNode[],
+  scope: Scope,
+  state: EmitState,
+  selection: SwitchSelection | undefined
+): void {
+  const hasChain = children.some((child) => {
+    if (child.type !== "element") return false;
+    const prepared = getPrepared(child, state);
+    return prepared.elseIfCondition !== undefined || prepared.isElse;
+  });
+  const branch = `b${state.counter++}`;
+  if (hasChain) {
+    code(state, `let ${branch} = false;`);
+  }
+
+  for (const child of children) {
+    const caseIndex = selection?.indices.get(child);
+    if (selection && caseIndex !== undefined) {
+      open(state, `if (${selection.variable} === ${caseIndex}) {`);
+    }
+
+    if (child.type === "text") {
+      emitText(child, scope, state);
+    } else if (!hasChain) {
+      emitElement(child, scope, state);
+    } else {
+      emitChainMember(child, branch, scope, state);
+    }
+
+    if (caseIndex !== undefined) {
+      close(state);
+    }
+  }
+}
+
+function emitChainMember(node: ElementNode, branch: string, scope: Scope, state: EmitState): void {
+  const prepared = getPrepared(node, state);
+
+  if (prepared.elseIfCondition || prepared.isElse) {
+    open(state, `if (!${branch}) {`);
+    if (prepared.elseIfCondition) {
+      open(state, `if (${condition(prepared.elseIfCondition, scope)}) {`);
+    }
+    code(state, `${branch} = true;`);
+    emitElement(node, scope, state);
+    if (prepared.elseIfCondition) {
+      close(state);
+    }
+    close(state);
+    return;
+  }
+
+  if (prepared.condition && !prepared.iteration) {
+    code(state, `${branch} = ${condition(prepared.condition, scope)};`);
+    if (node.tagName !== "meta") {
+      open(state, `if (${branch}) {`);
+      emitElementOnce(node, prepared, scope, state, false);
+      close(state);
+    }
+    return;
+  }
+
+  code(state, `${branch} = false;`);
+  emitElement(node, scope, state);
+}
+
+function emitText(node: TextNode, scope: Scope, state: EmitState): void {
+  for (const segment of node.segments) {
+    if (segment.kind === "literal") {
+      text(state, escapeHtml(segment.value));
+    } else {
+      emitInterpolation(segment, scope, state);
+    }
+  }
+}
+
+function emitAttribute(attribute: PreparedAttribute, scope: Scope, state: EmitState): void {
+  const parts = attribute.segments.map((segment) =>
+    segment.kind === "literal"
+      ? JSON.stringify(segment.value)
+      : `((x = ${filteredValue(segment, scope, state)}) == null ? "" : String(x))`
+  );
+  code(state, `s = sanitizeAttribute(${JSON.stringify(attribute.name)}, ${parts.join(" + ")});`);
+  code(state, `if (s !== undefined) out += ${JSON.stringify(` ${attribute.name}="`)} + escapeHtml(s) + '"';`);
+}
+
+function emitInterpolation(segment: InterpolationSegment, scope: Scope, state: EmitState): void {
+  code(state, `out += (x = ${filteredValue(segment, scope, state)}) == null ? "" : escapeHtml(String(x));`);
+}
+
+function filteredValue(segment: InterpolationSegment, scope: Scope, state: EmitState): string {
+  const value = lookup(segment.path, scope);
+  if (segment.filters.length === 0) {
+    return value;
+  }
+  const filters = `f${state.counter++}`;
+  state.constants.push(`const ${filters} = ${JSON.stringify(segment.filters)};`);
+  state.dataTypes.add(segment.dataType);
+  return `applyFilters(${value}, ${filters}, ctx_${segment.dataType})`;
+}
+
+/** Compile a condition to a JS expression with the semantics of `evaluateOperand`. */
+function condition(expr: ConditionExpression, scope: Scope): string {
+  switch (expr.kind) {
+    case "literal":
+      return JSON.stringify(expr.value);
+    case "path":
+      if (expr.path.endsWith(".length")) {
+        const base = lookup(expr.path.slice(0, -".length".length), scope);
+        return `(${lookup(expr.path, scope)} ?? strlen(${base}) ?? null)`;
+      }
+      return `(${lookup(expr.path, scope)} ?? null)`;
+    case "not":
+      return `!${condition(expr.operand, scope)}`;
+    case "logical":
+      return `(!!${condition(expr.left, scope)} ${expr.operator} !!${condition(expr.right, scope)})`;
+    case "compare": {
+      const left = condition(expr.left, scope);
+      const right = condition(expr.right, scope);
+      if (expr.operator === "==") return `(${left} === ${right})`;
+      if (expr.operator === "!=") return `(${left} !== ${right})`;
+      return `${ORDERING_HELPERS[expr.operator]}(${left}, ${right})`;
+    }
+  }
+}
+
+/** Inline the `getByPath` walk for a statically known path. */
+function lookup(path: string, scope: Scope): string {
+  const parts = path.split(".").filter(Boolean);
+  if (parts.length === 0) return "undefined";
+
+  const alias = scope.get(parts[0]);
+  const base = alias ?? "data";
+  const keys = alias ? parts.slice(1) : parts;
+  if (keys.length === 0) return base;
+
+  const guards = [`(v = ${base}) !== null && typeof v === "object"`];
+  for (const key of keys.slice(0, -1)) {
+    guards.push(`(v = v[${JSON.stringify(key)}]) !== null && typeof v === "object"`);
+  }
+  return `(${guards.join(" && ")} ? v[${JSON.stringify(keys[keys.length - 1])}] : undefined)`;
+}
+
+function getPrepared(node: ElementNode, state: EmitState): PreparedElement {
+  const prepared = state.elements.get(node);
+  if (!prepared) {
+    throw new RenderError(`<${node.tagName}> was added after the template was prepared`, {
+      source: node.tagName,
+    });
+  }
+  return prepared;
+}
+
+function text(state: EmitState, value: string): void {
+  state.pending += value;
+}
+
+function flush(state: EmitState): void {
+  if (state.pending) {
+    state.lines.push(`${"  ".repeat(state.depth)}out += ${JSON.stringify(state.pending)};`);
+    state.pending = "";
+  }
+}
+
+function code(state: EmitState, line: string): void {
+  flush(state);
+  state.lines.push(`${"  ".repeat(state.depth)}${line}`);
+}
+
+function open(state: EmitState, line: string): void {
+  code(state, line);
+  state.depth++;
+}
+
+function close(state: EmitState): void {
+  flush(state);
+  state.depth--;
+  state.lines.push(`${"  ".repeat(state.depth)}}`);
+}
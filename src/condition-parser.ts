@@ -0,0 +1,162 @@
+import { DslSyntaxError } from "./errors.js";
+import type { ComparisonOperator, ConditionExpression } from "./types.js";
+
+const PATH_RE = /^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/;
+
+const NUMBER_RE = /^-?\d+(\.\d+)?$/;
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")"] as const;
+
+const COMPARISON_OPERATORS = new Set<string>(["==", "!=", "<", "<=", ">", ">="]);
+
+type Token =
+  | { kind: "operator"; value: string }
+  | { kind: "string"; value: string }
+  | { kind: "word"; value: string };
+
+interface ParserState {
+  tokens: Token[];
+  position: number;
+  source: string;
+}
+
+/**
+ * Parse a data-if expression into a condition tree.
+ *
+ * Grammar:
+ *   or      := and ("||" and)*
+ *   and     := unary ("&&" unary)*
+ *   unary   := "!" unary | compare
+ *   compare := primary [("==" | "!=" | "<" | "<=" | ">" | ">=") primary]
+ *   primary := "(" or ")" | string | number | true | false | null | path
+ */
+export function parseCondition(expr: string): ConditionExpression {
+  const state: ParserState = { tokens: tokenize(expr), position: 0, source: expr };
+  if (state.tokens.length === 0) {
+    throw new DslSyntaxError("Condition expression is empty", { source: expr });
+  }
+
+  const result = parseOr(state);
+  if (state.position < state.tokens.length) {
+    throw new DslSyntaxError(`Unexpected token in condition: ${state.tokens[state.position].value}`, {
+      source: expr,
+    });
+  }
+  return result;
+}
+
+function parseOr(state: ParserState): ConditionExpression {
+  let left = parseAnd(state);
+  while (matchOperator(state, "||")) {
+    left = { kind: "logical", operator: "||", left, right: parseAnd(state) };
+  }
+  return left;
+}
+
+function parseAnd(state: ParserState): ConditionExpression {
+  let left = parseUnary(state);
+  while (matchOperator(state, "&&")) {
+    left = { kind: "logical", operator: "&&", left, right: parseUnary(state) };
+  }
+  return left;
+}
+
+function parseUnary(state: ParserState): ConditionExpression {
+  if (matchOperator(state, "!")) {
+    return { kind: "not", operand: parseUnary(state) };
+  }
+  return parseComparison(state);
+}
+
+function parseComparison(state: ParserState): ConditionExpression {
+  const left = parsePrimary(state);
+  const token = state.tokens[state.position];
+  if (token?.kind === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+    state.position++;
+    const right = parsePrimary(state);
+    return { kind: "compare", operator: token.value as ComparisonOperator, left, right };
+  }
+  return left;
+}
+
+function parsePrimary(state: ParserState): ConditionExpression {
+  const token = state.tokens[state.position];
+  if (!token) {
+    throw new DslSyntaxError("Unexpected end of condition", { source: state.source });
+  }
+  state.position++;
+
+  if (token.kind === "string") {
+    return { kind: "literal", value: token.value };
+  }
+
+  if (token.kind === "operator") {
+    if (token.value !== "(") {
+      throw new DslSyntaxError(`Unexpected token in condition: ${token.value}`, { source: state.source });
+    }
+    const inner = parseOr(state);
+    if (!matchOperator(state, ")")) {
+      throw new DslSyntaxError("Unclosed parentheses in condition", { source: state.source });
+    }
+    return inner;
+  }
+
+  const word = token.value;
+  if (word === "true") return { kind: "literal", value: true };
+  if (word === "false") return { kind: "literal", value: false };
+  if (word === "null") return { kind: "literal", value: null };
+  if (NUMBER_RE.test(word)) return { kind: "literal", value: Number(word) };
+  if (PATH_RE.test(word)) return { kind: "path", path: word };
+
+  throw new DslSyntaxError(`Invalid condition operand: ${word}`, { path: word, source: state.source });
+}
+
+function matchOperator(state: ParserState, value: string): boolean {
+  const token = state.tokens[state.position];
+  if (token?.kind === "operator" && token.value === value) {
+    state.position++;
+    return true;
+  }
+  return false;
+}
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const ch = expr[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = expr.indexOf(ch, i + 1);
+      if (end < 0) {
+        throw new DslSyntaxError("Unclosed string literal in condition", { source: expr });
+      }
+      tokens.push({ kind: "string", value: expr.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expr.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: "operator", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    let end = i;
+    while (end < expr.length && /[A-Za-z0-9_$.\-]/.test(expr[end])) end++;
+    if (end === i) {
+      throw new DslSyntaxError(`Unexpected character in condition: ${ch}`, { source: expr });
+    }
+    tokens.push({ kind: "word", value: expr.slice(i, end) });
+    i = end;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,197 @@
+/**
+ * Value grammar for the CSS properties allowed by default. Each validator
+ * receives the trimmed value and the allowed font families; keywords are
+ * matched case-insensitively.
+ */
+type ValueValidator = (value: string, fonts: ReadonlySet<string>) => boolean;
+
+const NUMBER = String.raw`(?:\d+(?:\.\d+)?|\.\d+)`;
+const LENGTH_UNITS = "px|pt|mm|cm|in";
+
+const LENGTH_RE = new RegExp(String.raw`^[+-]?(?:0|${NUMBER}(?:${LENGTH_UNITS}))$`, "i");
+const PERCENTAGE_RE = new RegExp(String.raw`^[+-]?${NUMBER}%$`);
+const UNITLESS_RE = new RegExp(String.raw`^\+?${NUMBER}$`);
+const HEX_COLOR_RE = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const COLOR_FUNCTION_RE = new RegExp(
+  String.raw`^(?:rgba?|hsla?)\(\s*${NUMBER}(?:%|deg)?(?:\s*[,\s]\s*${NUMBER}%?){2}(?:\s*[,/]\s*${NUMBER}%?)?\s*\)$`,
+  "i"
+);
+
+const NAMED_COLORS = new Set([
+  "aliceblue", "antiquewhite", "aqua", "aquamarine", "azure", "beige", "bisque", "black", "blanchedalmond", "blue",
+  "blueviolet", "brown", "burlywood", "cadetblue", "chartreuse", "chocolate", "coral", "cornflowerblue", "cornsilk",
+  "crimson", "cyan", "darkblue", "darkcyan", "darkgoldenrod", "darkgray", "darkgreen", "darkgrey", "darkkhaki",
+  "darkmagenta", "darkolivegreen", "darkorange", "darkorchid", "darkred", "darksalmon", "darkseagreen",
+  "darkslateblue", "darkslategray", "darkslategrey", "darkturquoise", "darkviolet", "deeppink", "deepskyblue",
+  "dimgray", "dimgrey", "dodgerblue", "firebrick", "floralwhite", "forestgreen", "fuchsia", "gainsboro",
+  "ghostwhite", "gold", "goldenrod", "gray", "green", "greenyellow", "grey", "honeydew", "hotpink", "indianred",
+  "indigo", "ivory", "khaki", "lavender", "lavenderblush", "lawngreen", "lemonchiffon", "lightblue", "lightcoral",
+  "lightcyan", "lightgoldenrodyellow", "lightgray", "lightgreen", "lightgrey", "lightpink", "lightsalmon",
+  "lightseagreen", "lightskyblue", "lightslategray", "lightslategrey", "lightsteelblue", "lightyellow", "lime",
+  "limegreen", "linen", "magenta", "maroon", "mediumaquamarine", "mediumblue", "mediumorchid", "mediumpurple",
+  "mediumseagreen", "mediumslateblue", "mediumspringgreen", "mediumturquoise", "mediumvioletred", "midnightblue",
+  "mintcream", "mistyrose", "moccasin", "navajowhite", "navy", "oldlace", "olive", "olivedrab", "orange",
+  "orangered", "orchid", "palegoldenrod", "palegreen", "paleturquoise", "palevioletred", "papayawhip", "peachpuff",
+  "peru", "pink", "plum", "powderblue", "purple", "rebeccapurple", "red", "rosybrown", "royalblue", "saddlebrown",
+  "salmon", "sandybrown", "seagreen", "seashell", "sienna", "silver", "skyblue", "slateblue", "slategray",
+  "slategrey", "snow", "springgreen", "steelblue", "tan", "teal", "thistle", "tomato", "turquoise", "violet",
+  "wheat", "white", "whitesmoke", "yellow", "yellowgreen", "transparent", "currentcolor",
+]);
+
+/** Font families `font-family` may name when no policy adds more. Generic families are always allowed. */
+export const DEFAULT_FONT_FAMILIES = [
+  "Arial", "Helvetica", "Helvetica Neue", "Times", "Times New Roman", "Georgia", "Courier", "Courier New",
+  "Verdana", "Tahoma", "Trebuchet MS",
+  "Noto Sans", "Noto Serif", "Noto Sans JP", "Noto Serif JP", "Noto Sans CJK JP", "Noto Serif CJK JP",
+  "Source Han Sans", "Source Han Serif",
+  "Hiragino Sans", "Hiragino Kaku Gothic ProN", "Hiragino Mincho ProN",
+  "Yu Gothic", "YuGothic", "Yu Mincho", "YuMincho", "Meiryo",
+  "MS Gothic", "MS PGothic", "MS Mincho", "MS PMincho",
+  "IPAGothic", "IPAPGothic", "IPAMincho", "IPAPMincho", "IPAexGothic", "IPAexMincho",
+  "BIZ UDGothic", "BIZ UDPGothic", "BIZ UDMincho", "BIZ UDPMincho",
+];
+
+const GENERIC_FONT_FAMILIES = new Set([
+  "serif", "sans-serif", "monospace", "cursive", "fantasy", "system-ui", "ui-serif", "ui-sans-serif",
+  "ui-monospace",
+]);
+
+const BORDER_STYLES = new Set([
+  "none", "hidden", "solid", "dashed", "dotted", "double", "groove", "ridge", "inset", "outset",
+]);
+
+const PAGE_SIZES = new Set(["a3", "a4", "a5", "b4", "b5", "jis-b4", "jis-b5", "letter", "legal", "ledger"]);
+
+const keywords = (...names: string[]): ValueValidator => {
+  const set = new Set(names);
+  return (value) => set.has(value.toLowerCase());
+};
+
+const isLength = (value: string): boolean => LENGTH_RE.test(value);
+const isNonNegative = (value: string): boolean => !value.startsWith("-");
+const isLengthOrPercentage = (value: string): boolean => isLength(value) || PERCENTAGE_RE.test(value);
+const isColor = (value: string): boolean =>
+  NAMED_COLORS.has(value.toLowerCase()) || HEX_COLOR_RE.test(value) || COLOR_FUNCTION_RE.test(value);
+
+const oneOf = (...validators: ValueValidator[]): ValueValidator => (value, fonts) =>
+  validators.some((validator) => validator(value, fonts));
+
+const nonNegative = (validator: ValueValidator): ValueValidator => (value, fonts) =>
+  isNonNegative(value) && validator(value, fonts);
+
+/** 1–4 space-separated values, as in `margin` and `padding`. */
+const boxShorthand = (validator: ValueValidator): ValueValidator => (value, fonts) => {
+  const parts = splitValue(value);
+  return parts.length >= 1 && parts.length <= 4 && parts.every((part) => validator(part, fonts));
+};
+
+const length: ValueValidator = isLength;
+const lengthOrPercentage: ValueValidator = isLengthOrPercentage;
+const auto = keywords("auto");
+const margin = oneOf(lengthOrPercentage, auto);
+const padding = nonNegative(lengthOrPercentage);
+const color: ValueValidator = isColor;
+const pageBreak = keywords("auto", "always", "avoid", "left", "right");
+
+const border: ValueValidator = (value) => {
+  const parts = splitValue(value);
+  if (parts.length === 0 || parts.length > 3) return false;
+
+  const seen = new Set<string>();
+  return parts.every((part) => {
+    const kind =
+      (isNonNegative(part) && isLength(part)) || ["thin", "medium", "thick"].includes(part.toLowerCase())
+        ? "width"
+        : BORDER_STYLES.has(part.toLowerCase())
+          ? "style"
+          : isColor(part)
+            ? "color"
+            : undefined;
+    if (!kind || seen.has(kind)) return false;
+    seen.add(kind);
+    return true;
+  });
+};
+
+const fontFamily: ValueValidator = (value, fonts) => {
+  const families = value.split(",").map((family) => family.trim());
+  return families.every((family) => {
+    const quoted = family.match(/^(["'])([^"']+)\1$/);
+    const name = quoted ? quoted[2].trim() : family;
+    if (!quoted && !/^[A-Za-z][\w-]*(?:\s+[\w-]+)*$/.test(name)) return false;
+    const lower = name.toLowerCase();
+    return (!quoted && GENERIC_FONT_FAMILIES.has(lower)) || fonts.has(lower);
+  });
+};
+
+const fontSize = oneOf(
+  nonNegative(lengthOrPercentage),
+  keywords("xx-small", "x-small", "small", "medium", "large", "x-large", "xx-large", "smaller", "larger")
+);
+
+const fontWeight: ValueValidator = (value) =>
+  ["normal", "bold", "bolder", "lighter"].includes(value.toLowerCase()) ||
+  (/^\d{1,4}$/.test(value) && Number(value) >= 1 && Number(value) <= 1000);
+
+const lineHeight = oneOf(keywords("normal"), (value) => UNITLESS_RE.test(value), nonNegative(lengthOrPercentage));
+
+const pageSize: ValueValidator = (value) => {
+  const parts = splitValue(value.toLowerCase());
+  if (parts.length === 1 && ["auto", "portrait", "landscape"].includes(parts[0])) return true;
+  if (parts.length >= 1 && parts.length <= 2 && parts.every((part) => isNonNegative(part) && isLength(part))) {
+    return true;
+  }
+  const [size, orientation] = parts;
+  const isOrientation = orientation === undefined || ["portrait", "landscape"].includes(orientation);
+  return parts.length <= 2 && PAGE_SIZES.has(size) && isOrientation;
+};
+
+const GRAMMAR: Record<string, ValueValidator> = {
+  display: keywords(
+    "block", "inline", "inline-block", "none", "list-item", "table", "inline-table", "table-caption",
+    "table-row", "table-cell", "table-row-group", "table-header-group", "table-footer-group", "table-column",
+    "table-column-group"
+  ),
+  width: nonNegative(oneOf(lengthOrPercentage, auto)),
+  height: nonNegative(oneOf(lengthOrPercentage, auto)),
+  margin: boxShorthand(margin),
+  "margin-top": margin,
+  "margin-right": margin,
+  "margin-bottom": margin,
+  "margin-left": margin,
+  padding: boxShorthand(padding),
+  "padding-top": padding,
+  "padding-right": padding,
+  "padding-bottom": padding,
+  "padding-left": padding,
+  "box-sizing": keywords("content-box", "border-box"),
+  border,
+  "border-collapse": keywords("collapse", "separate"),
+  "font-family": fontFamily,
+  "font-size": fontSize,
+  "font-weight": fontWeight,
+  "line-height": lineHeight,
+  "text-align": keywords("left", "right", "center", "justify", "start", "end"),
+  "white-space": keywords("normal", "nowrap", "pre", "pre-wrap", "pre-line", "break-spaces"),
+  "letter-spacing": oneOf(keywords("normal"), length),
+  color,
+  "background-color": color,
+  "page-break-before": pageBreak,
+  "page-break-after": pageBreak,
+  "page-break-inside": keywords("auto", "avoid"),
+  size: pageSize,
+};
+
+/**
+ * Check `value` against the grammar of `property`. Returns undefined for
+ * properties without a grammar (e.g. ones added by a policy).
+ */
+export function isValidCssValue(property: string, value: string, fonts: ReadonlySet<string>): boolean | undefined {
+  const validator = GRAMMAR[property];
+  return validator ? validator(value.trim(), fonts) : undefined;
+}
+
+/** Split on whitespace, keeping function arguments such as `rgb(0, 0, 0)` together. */
+function splitValue(value: string): string[] {
+  return value.match(/[^\s(]+\([^)]*\)|[^\s]+/g) ?? [];
+}
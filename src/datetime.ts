@@ -0,0 +1,86 @@
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface TimeParts {
+  hour: number;
+  minute: number;
+  second: number;
+  /** Offset from UTC in minutes; undefined when the value has no offset. */
+  offsetMinutes?: number;
+}
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_RE = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+/** Parse `YYYY-MM-DD`, rejecting dates that do not exist in the calendar. */
+export function parseIsoDate(value: string): DateParts | undefined {
+  const match = value.match(DATE_RE);
+  if (!match) return undefined;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return undefined;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Parse `HH:mm`, `HH:mm:ss` or `HH:mm:ss.fff`, optionally followed by `Z` or
+ * an offset within ±14:00.
+ */
+export function parseIsoTime(value: string): TimeParts | undefined {
+  const match = value.match(TIME_RE);
+  if (!match) return undefined;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = Number(match[3] ?? "0");
+  if (hour > 23 || minute > 59 || second > 59) {
+    return undefined;
+  }
+
+  const offset = match[4];
+  if (offset === undefined) {
+    return { hour, minute, second };
+  }
+
+  const offsetMinutes = parseOffset(offset);
+  return offsetMinutes === undefined ? undefined : { hour, minute, second, offsetMinutes };
+}
+
+/** Parse `YYYY-MM-DDTHH:mm[:ss[.fff]][Z|±hh:mm]` with calendar and clock ranges checked. */
+export function parseIsoDateTime(value: string): (DateParts & TimeParts) | undefined {
+  const separator = value.search(/t/i);
+  if (separator === -1) return undefined;
+
+  const date = parseIsoDate(value.slice(0, separator));
+  const time = date && parseIsoTime(value.slice(separator + 1));
+  return date && time ? { ...date, ...time } : undefined;
+}
+
+function parseOffset(offset: string): number | undefined {
+  if (offset.toUpperCase() === "Z") return 0;
+
+  const sign = offset.startsWith("-") ? -1 : 1;
+  const digits = offset.slice(1).replace(":", "");
+  const hours = Number(digits.slice(0, 2));
+  const minutes = Number(digits.slice(2));
+  const total = hours * 60 + minutes;
+  if (minutes > 59 || total > MAX_OFFSET_MINUTES) {
+    return undefined;
+  }
+  return sign * total;
+}
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) {
+    const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    return leap ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
@@ -18,6 +18,14 @@ export function parseIterationExpression(expr: string): { path: string; alias: s
   return { path: match[1], alias: match[2] };
 }
 
+export function parseSwitchExpression(expr: string): string {
+  const path = expr.trim();
+  if (!/^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/.test(path)) {
+    throw new DslSyntaxError(`Invalid switch expression: ${expr}`, { source: expr });
+  }
+  return path;
+}
+
 export function getByPath(
   data: Record<string, unknown>,
   aliases: Record<string, unknown>,
@@ -113,10 +121,6 @@ export function normalizePath(path: string): string[] {
   return path.split(".").filter(Boolean);
 }
 
-export function isVoidTag(tagName: string): boolean {
-  return tagName === "br" || tagName === "hr" || tagName === "img" || tagName === "meta";
-}
-
 export function stableSortObject(value: unknown): unknown {
   if (Array.isArray(value)) {
     return value.map((item) => stableSortObject(item));
@@ -1,9 +1,16 @@
+import { formatCodeFrame } from "./source-location.js";
+import type { SourceLocation } from "./types.js";
+
 export type ErrorCategory = "dsl" | "schema" | "data" | "render";
 
 export class DslError extends Error {
   readonly category: ErrorCategory;
   path?: string;
   source?: string;
+  /** Where in the template the error was raised, when known. */
+  location?: SourceLocation;
+  /** The template lines around `location`, with the offending range underlined. */
+  codeFrame?: string;
 
   constructor(
     message: string,
@@ -18,6 +25,25 @@ export class DslError extends Error {
   }
 }
 
+/**
+ * Run `fn`, attaching `location` (and a code frame when the template text is
+ * given) to any DslError it throws that does not carry a location yet.
+ */
+export function withLocation<T>(location: SourceLocation | undefined, template: string | undefined, fn: () => T): T {
+  try {
+    return fn();
+  } catch (err) {
+    if (location && err instanceof DslError && !err.location) {
+      const message = err.message;
+      err.location = location;
+      err.message = `${message} (line ${location.start.line}, column ${location.start.column})`;
+      if (err.stack) err.stack = err.stack.replace(message, err.message);
+      if (template !== undefined) err.codeFrame = formatCodeFrame(template, location);
+    }
+    throw err;
+  }
+}
+
 export class DslSyntaxError extends DslError {
   readonly category = "dsl" as const;
 
@@ -42,15 +68,27 @@ export class SchemaExtractionError extends DslError {
   }
 }
 
+/** A single schema violation found while validating data. */
+export interface ValidationIssue {
+  path: string;
+  /** The JSON Schema keyword that failed (`type`, `required`, `minimum`, ...). */
+  keyword: string;
+  message: string;
+  expected: unknown;
+  actual: unknown;
+}
+
 export class DataValidationError extends DslError {
   readonly category = "data" as const;
+  readonly issues: ValidationIssue[];
 
   constructor(
     message: string,
-    options?: { path?: string; source?: string; cause?: unknown }
+    options?: { path?: string; source?: string; cause?: unknown; issues?: ValidationIssue[] }
   ) {
     super(message, "data", options);
     this.name = "DataValidationError";
+    this.issues = options?.issues ?? [];
   }
 }
 
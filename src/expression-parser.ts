@@ -1,4 +1,6 @@
-import { DslSyntaxError } from "./errors.js";
+import { DslSyntaxError, withLocation } from "./errors.js";
+import { createSourceLocator } from "./source-location.js";
+import type { SourceLocator } from "./source-location.js";
 import type {
   TextSegment,
   LiteralSegment,
@@ -59,12 +61,41 @@ const FILTER_SPECS = {
   ]),
 } as const;
 
+// Set while the linter parses, so `date-format` on a non-date type is kept for it to report.
+let mistypedDateFormatAllowed = false;
+
+/**
+ * Run `fn` with `date-format` accepted on every type instead of raising
+ * `DslSyntaxError`. Used by the linter, which reports it as `date-format-type`.
+ */
+export function allowingMistypedDateFormat<T>(fn: () => T): T {
+  const previous = mistypedDateFormatAllowed;
+  mistypedDateFormatAllowed = true;
+  try {
+    return fn();
+  } finally {
+    mistypedDateFormatAllowed = previous;
+  }
+}
+
+/**
+ * Where a text being parsed sits in its template: `offset` is the index of
+ * the text's first character in `locator.source`.
+ */
+export interface TextOrigin {
+  locator: SourceLocator;
+  offset: number;
+}
+
 /**
  * Parse a raw text string containing {{ ... }} interpolations into segments.
+ * Interpolations record their location within `origin` (the text itself by
+ * default), and syntax errors carry that location and a code frame.
  */
-export function parseTextSegments(text: string): TextSegment[] {
+export function parseTextSegments(text: string, origin?: TextOrigin): TextSegment[] {
   if (text === "") return [];
 
+  const { locator, offset } = origin ?? { locator: createSourceLocator(text), offset: 0 };
   const segments: TextSegment[] = [];
   let lastIndex = 0;
 
@@ -81,7 +112,10 @@ export function parseTextSegments(text: string): TextSegment[] {
     }
 
     const inner = match[1].trim();
-    segments.push(parseInterpolation(inner));
+    const start = offset + match.index;
+    const location = locator.location(start, start + match[0].length);
+    const segment = withLocation(location, locator.source, () => parseInterpolation(inner));
+    segments.push({ ...segment, location });
 
     lastIndex = match.index + match[0].length;
   }
@@ -326,7 +360,9 @@ function parseFilter(s: string, dataType: DataType): Filter {
   const argsStr = colonIdx < 0 ? "" : s.slice(colonIdx + 1).trim();
   const args = argsStr === "" ? [] : quoteAwareSplit(argsStr, ",").map((a) => unquote(a.trim()));
 
-  const spec = FILTER_SPECS[dataType].get(name);
+  const spec =
+    FILTER_SPECS[dataType].get(name) ??
+    (mistypedDateFormatAllowed && name === "date-format" ? FILTER_SPECS.date.get(name) : undefined);
   if (!spec) {
     throw new DslSyntaxError(`Filter "${name}" is not allowed for type "${dataType}"`, { source: s });
   }
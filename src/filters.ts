@@ -1,9 +1,12 @@
 import { RenderError } from "./errors.js";
+import { parseIsoDate, parseIsoDateTime, parseIsoTime } from "./datetime.js";
 import type { DataType, Filter } from "./types.js";
 
 export interface FilterContext {
   dataType?: DataType;
   timezone?: string;
+  /** Throw instead of echoing values that `date-format` cannot parse. */
+  strict?: boolean;
 }
 
 const TOKEN_RE = /YYYY|MM|DD|HH|mm|ss/g;
@@ -68,6 +71,12 @@ function applySingleFilter(value: unknown, filter: Filter, context: FilterContex
 
     case "date-format": {
       const format = filter.args[0] ?? "YYYY-MM-DD";
+      if (context.strict && value != null && !isParseableDate(String(value), context.dataType)) {
+        const dataType = context.dataType ?? "datetime";
+        throw new RenderError(`date-format cannot parse ${JSON.stringify(value)} as ${dataType}`, {
+          source: String(value),
+        });
+      }
       return formatDateValue(value, context.dataType, format, context.timezone ?? "UTC");
     }
 
@@ -140,6 +149,13 @@ function formatDateValue(
   return applyDateTokens(format, map);
 }
 
+/** Calendar-correct check; `date` values may carry a `Z` suffix, which is ignored. */
+function isParseableDate(source: string, dataType: DataType | undefined): boolean {
+  if (dataType === "date") return parseIsoDate(source.replace(/Z$/i, "")) !== undefined;
+  if (dataType === "time") return parseIsoTime(source) !== undefined;
+  return parseIsoDateTime(source) !== undefined;
+}
+
 function hasOffset(value: string): boolean {
   return /([+-]\d{2}:?\d{2}|Z)$/i.test(value);
 }
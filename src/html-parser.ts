@@ -1,124 +1,67 @@
+import { DslSyntaxError, withLocation } from "./errors.js";
 import { parseTextSegments } from "./expression-parser.js";
-import type { DslNode, ElementNode, TextNode } from "./types.js";
-
-const ALLOWED_TAGS = new Set([
-  "html",
-  "head",
-  "body",
-  "meta",
-  "div",
-  "section",
-  "header",
-  "footer",
-  "main",
-  "p",
-  "span",
-  "strong",
-  "em",
-  "small",
-  "br",
-  "hr",
-  "table",
-  "thead",
-  "tbody",
-  "tr",
-  "th",
-  "td",
-  "colgroup",
-  "ul",
-  "ol",
-  "li",
-  "img",
-]);
-
-const VOID_TAGS = new Set(["br", "hr", "img", "meta"]);
-
-const ALLOWED_ATTRIBUTES = new Set([
-  "style",
-  "class",
-  "id",
-  "lang",
-  "dir",
-  "src",
-  "alt",
-  "colspan",
-  "rowspan",
-  "name",
-  "content",
-]);
+import { parseIterationExpression, readTextContent, walkElements } from "./dsl-utils.js";
+import { decodeCharacterReferences } from "./html-entities.js";
+import { checkCssDeclaration, isAllowedDataUrl, parseCssDeclarations, resolveSanitizePolicy } from "./sanitize-policy.js";
+import type { ResolvedSanitizePolicy, SanitizePolicy } from "./sanitize-policy.js";
+import { tokenizeHtml, VOID_TAGS } from "./html-tokenizer.js";
+import type { HtmlAttribute, TextToken } from "./html-tokenizer.js";
+import { checkScopeVariables } from "./scope-variables.js";
+import { createSourceLocator } from "./source-location.js";
+import type { SourceLocator } from "./source-location.js";
+import type { DslNode, ElementNode, SourceLocation, SourcePosition, TextNode } from "./types.js";
 
-const ALLOWED_DATA_ATTRIBUTES = new Set([
-  "data-page",
-  "data-repeat",
-  "data-if",
-  "data-format",
-  "data-break-before",
-  "data-break-after",
-  "data-fixed-rows",
-  "data-max-rows",
-  "data-semantic-description",
-  "data-semantic-instruction",
-  "data-semantic-examples",
-]);
+/**
+ * Source of named partials for data-include. A `Map<string, string>` works as-is.
+ */
+export interface TemplateRegistry {
+  get(name: string): string | undefined;
+}
 
-const ALLOWED_CSS_PROPERTIES = new Set([
-  "display",
-  "width",
-  "height",
-  "margin",
-  "margin-top",
-  "margin-right",
-  "margin-bottom",
-  "margin-left",
-  "padding",
-  "padding-top",
-  "padding-right",
-  "padding-bottom",
-  "padding-left",
-  "box-sizing",
-  "border",
-  "border-collapse",
-  "font-family",
-  "font-size",
-  "font-weight",
-  "line-height",
-  "text-align",
-  "white-space",
-  "letter-spacing",
-  "color",
-  "background-color",
-  "page-break-before",
-  "page-break-after",
-  "page-break-inside",
-]);
+/**
+ * Why the sanitizer removed something: a disallowed tag (with its content),
+ * a disallowed attribute, an `img` without a data URL or interpolated `src`,
+ * or a CSS declaration with a disallowed property or value.
+ */
+export type SanitizeReason = "tag" | "attribute" | "img-src" | "css-property" | "css-value";
 
-const BANNED_CSS_PATTERNS = [
-  /\babsolute\b/i,
-  /\bfixed\b/i,
-  /\bfloat\b/i,
-  /\bflex\b/i,
-  /\bgrid\b/i,
-  /\banimation\b/i,
-  /\btransition\b/i,
-  /\btransform\b/i,
-  /\bfilter\b/i,
-  /calc\s*\(/i,
-  /var\s*\(/i,
-  /\d(?:\.\d+)?\s*(em|rem|vh|vw|%|ch)(?![A-Za-z])/i,
-];
-
-const TOKEN_RE = /<!--[\s\S]*?-->|<[^>]+>|[^<]+/g;
-
-interface OpenTagToken {
+/** One removal made while sanitizing a template. */
+export interface SanitizeDiagnostic {
+  reason: SanitizeReason;
+  message: string;
   tagName: string;
-  attrs: Record<string, string>;
-  selfClosing: boolean;
+  /** The attribute or CSS property that was removed. */
+  name?: string;
+  /** Location within the document (or partial/layout) that contained the removed input. */
+  location: SourceLocation;
+}
+
+export interface ParseOptions {
+  registry?: TemplateRegistry;
+  /** Widens or narrows the allowed tags, attributes and CSS properties. */
+  policy?: SanitizePolicy;
+  /** Called for every tag, attribute or CSS declaration the sanitizer removes. */
+  onDiagnostic?: (diagnostic: SanitizeDiagnostic) => void;
+  /** Throw a DslSyntaxError instead of removing disallowed input. */
+  strictSanitize?: boolean;
+}
+
+interface Sanitizer {
+  policy: ResolvedSanitizePolicy;
+  report: (diagnostic: SanitizeDiagnostic) => void;
 }
 
 /**
  * Parse an HTML DSL string into a sanitized AST tree.
  */
-export function parseHtml(html: string): ElementNode {
+export function parseHtml(html: string, options: ParseOptions = {}): ElementNode {
+  const root = parseDocument(html, options, []);
+  // Partials and layouts are only checked once assembled, inside the iterations that include them.
+  checkScopeVariables(root, resolveSanitizePolicy(options.policy));
+  return root;
+}
+
+function parseDocument(html: string, options: ParseOptions, includeStack: string[]): ElementNode {
   const syntheticRoot: ElementNode = {
     type: "element",
     tagName: "__root__",
@@ -127,86 +70,139 @@ export function parseHtml(html: string): ElementNode {
   };
 
   const stack: ElementNode[] = [syntheticRoot];
-  let ignoredDepth = 0;
-
-  TOKEN_RE.lastIndex = 0;
-
-  for (let tokenMatch = TOKEN_RE.exec(html); tokenMatch; tokenMatch = TOKEN_RE.exec(html)) {
-    const token = tokenMatch[0];
+  // Disallowed elements stay on the stack, detached from the tree, so their content is dropped with them.
+  const dropped = new Set<ElementNode>();
+  const locator = createSourceLocator(html);
+  const policy = resolveSanitizePolicy(options.policy);
+  const report = (diagnostic: SanitizeDiagnostic): void => {
+    if (options.strictSanitize) {
+      withLocation(diagnostic.location, html, () => {
+        throw new DslSyntaxError(diagnostic.message, { source: diagnostic.name ?? diagnostic.tagName });
+      });
+    }
+    options.onDiagnostic?.(diagnostic);
+  };
 
-    if (token.startsWith("<!--")) {
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === "comment" || token.type === "doctype") {
       continue;
     }
 
-    if (token.startsWith("</")) {
-      const closeTag = parseClosingTag(token);
-      if (!closeTag) continue;
+    if (token.type === "endTag") {
+      closeElement(stack, token.tagName, locator.position(token.end));
+      continue;
+    }
 
-      if (ignoredDepth > 0) {
-        ignoredDepth--;
+    if (token.type === "text") {
+      if (isInsideDropped(stack, dropped) || (!token.literal && token.value.trim().length === 0)) {
         continue;
       }
 
-      closeStackUntil(stack, closeTag);
+      const textNode = token.literal
+        ? buildLiteralTextNode(token, locator)
+        : buildTextNode(token.value, locator, token.start);
+      if (textNode) {
+        stack[stack.length - 1].children.push(textNode);
+      }
       continue;
     }
 
-    if (token.startsWith("<")) {
-      const openTag = parseOpenTag(token);
-      if (!openTag) continue;
+    const { tagName, selfClosing } = token;
+    const isVoid = VOID_TAGS.has(tagName) || selfClosing;
 
-      const { tagName, attrs, selfClosing } = openTag;
-      const isVoid = VOID_TAGS.has(tagName) || selfClosing;
+    closeImpliedElements(stack, tagName, locator.position(token.start));
 
-      if (ignoredDepth > 0) {
-        if (!isVoid) ignoredDepth++;
-        continue;
-      }
-
-      if (!ALLOWED_TAGS.has(tagName)) {
-        if (!isVoid) {
-          ignoredDepth = 1;
-        }
-        continue;
-      }
+    if (isInsideDropped(stack, dropped)) {
+      if (!isVoid) stack.push({ type: "element", tagName, attributes: {}, children: [] });
+      continue;
+    }
 
-      const filteredAttrs = filterAttributes(attrs);
-      if (tagName === "img") {
-        const src = filteredAttrs.src;
-        if (!src?.startsWith("data:") && !/\{\{.*\}\}/.test(src ?? "")) {
-          continue;
-        }
-      }
+    const tagLocation = locator.location(token.start, token.end);
 
-      const node: ElementNode = {
-        type: "element",
+    if (!policy.tags.has(tagName)) {
+      report({
+        reason: "tag",
+        message: isVoid
+          ? `Removed <${tagName}>: tag is not allowed`
+          : `Removed <${tagName}> and its content: tag is not allowed`,
         tagName,
-        attributes: filteredAttrs,
-        children: [],
-      };
-
-      stack[stack.length - 1].children.push(node);
+        location: tagLocation,
+      });
       if (!isVoid) {
-        stack.push(node);
+        const droppedNode: ElementNode = { type: "element", tagName, attributes: {}, children: [] };
+        dropped.add(droppedNode);
+        stack.push(droppedNode);
       }
-
       continue;
     }
 
-    if (ignoredDepth > 0) {
-      continue;
+    const attrs: Record<string, string> = {};
+    const rawAttrs: Record<string, string> = {};
+    const attrOffsets: Record<string, HtmlAttribute> = {};
+    for (const attribute of token.attributes) {
+      attrs[attribute.name] = decodeAttributeValue(attribute.value);
+      rawAttrs[attribute.name] = attribute.value;
+      attrOffsets[attribute.name] = attribute;
     }
 
-    if (token.trim().length === 0) {
-      continue;
+    const locateAttr: AttributeLocator = (key, valueRange) => {
+      const { nameStart, valueStart, end } = attrOffsets[key];
+      if (valueRange && attrs[key] !== rawAttrs[key]) {
+        // Decoding shifted the offsets within the value; point at the whole value instead.
+        valueRange = [0, rawAttrs[key].length];
+      }
+      return valueRange
+        ? locator.location(valueStart + valueRange[0], valueStart + valueRange[1])
+        : locator.location(nameStart, end);
+    };
+    const filteredAttrs = filterAttributes(tagName, attrs, locateAttr, { policy, report });
+    if (tagName === "img") {
+      const src = filteredAttrs.src;
+      if (src === undefined || (!isAllowedDataUrl(src, policy) && !/\{\{.*\}\}/.test(src))) {
+        report({
+          reason: "img-src",
+          message: "Removed <img>: src must be a data: URL with an allowed image type or an interpolation",
+          tagName,
+          name: "src",
+          location: src === undefined ? tagLocation : locateAttr("src"),
+        });
+        continue;
+      }
     }
 
-    const textNode = buildTextNode(token);
-    if (textNode) {
-      stack[stack.length - 1].children.push(textNode);
+    const node: ElementNode = {
+      type: "element",
+      tagName,
+      attributes: filteredAttrs,
+      children: [],
+      location: tagLocation,
+    };
+
+    for (const key of Object.keys(filteredAttrs)) {
+      checkAttributeExpression(key, filteredAttrs[key], rawAttrs[key], policy, locator, attrOffsets[key].valueStart);
+    }
+
+    stack[stack.length - 1].children.push(node);
+    if (!isVoid) {
+      stack.push(node);
     }
   }
 
+  const documentEnd = locator.position(html.length);
+  for (const unclosed of stack.slice(1)) {
+    if (unclosed.location) unclosed.location.end = documentEnd;
+  }
+
+  resolveIncludes(syntheticRoot, options, includeStack);
+
+  const layout = resolveLayout(syntheticRoot, options, includeStack);
+  if (layout) {
+    validateControlAttributes(layout);
+    return layout;
+  }
+
+  validateControlAttributes(syntheticRoot);
+
   const rootHtml = syntheticRoot.children.find(
     (node): node is ElementNode => node.type === "element" && node.tagName === "html"
   );
@@ -223,95 +219,461 @@ export function parseHtml(html: string): ElementNode {
   };
 }
 
-function buildTextNode(raw: string): TextNode | null {
-  const segments = parseTextSegments(raw);
-  if (segments.length === 0) {
+/**
+ * Resolve `<meta name="extends" content="layout">`: parse the registered
+ * layout, move each data-fill region of the child into the layout's matching
+ * data-slot, and append the child's other meta tags to the layout head so
+ * its global config and semantics apply. Returns null when the document does
+ * not extend a layout.
+ */
+function resolveLayout(root: ElementNode, options: ParseOptions, includeStack: string[]): ElementNode | null {
+  let extendsMeta: ElementNode | undefined;
+  walkElements(root, (el) => {
+    if (!extendsMeta && el.tagName === "meta" && el.attributes.name?.trim() === "extends") {
+      extendsMeta = el;
+    }
+  });
+  if (!extendsMeta) {
     return null;
   }
-  return {
-    type: "text",
-    segments,
+
+  const name = extendsMeta.attributes.content?.trim() ?? "";
+  const fills = new Map<string, ElementNode>();
+  const metas: ElementNode[] = [];
+
+  const collect = (node: ElementNode): void => {
+    for (const child of node.children) {
+      if (child.type === "element" && child.tagName === "meta") {
+        if (child !== extendsMeta) metas.push(child);
+        continue;
+      }
+
+      if (child.type === "element" && child.attributes["data-fill"] !== undefined) {
+        const fillName = child.attributes["data-fill"].trim();
+        if (fills.has(fillName)) {
+          throw new DslSyntaxError(`Duplicate data-fill: ${fillName}`, { source: fillName });
+        }
+        fills.set(fillName, child);
+        continue;
+      }
+
+      if (child.type === "element" && ["html", "head", "body"].includes(child.tagName)) {
+        collect(child);
+        continue;
+      }
+
+      throw new DslSyntaxError(`Content outside data-fill in a template that extends "${name}"`, {
+        source: child.type === "element" ? child.tagName : readTextContent(child).trim(),
+      });
+    }
   };
+  collect(root);
+
+  if (includeStack.includes(name)) {
+    throw new DslSyntaxError(`Circular extends: ${[...includeStack, name].join(" -> ")}`, { source: name });
+  }
+
+  const source = options.registry?.get(name);
+  if (source === undefined) {
+    throw new DslSyntaxError(`Unknown layout: ${name}`, { source: name });
+  }
+
+  const layout = parseDocument(source, options, [...includeStack, name]);
+
+  for (const [fillName, fill] of fills) {
+    const slots: ElementNode[] = [];
+    walkElements(layout, (el) => {
+      if (el.attributes["data-slot"]?.trim() === fillName) slots.push(el);
+    });
+
+    if (slots.length === 0) {
+      throw new DslSyntaxError(`data-fill "${fillName}" has no matching data-slot in layout "${name}"`, {
+        source: fillName,
+      });
+    }
+
+    slots.forEach((slot, index) => {
+      slot.children = index === 0 ? fill.children : structuredClone(fill.children);
+    });
+  }
+
+  if (metas.length > 0) {
+    const head = layout.children.find(
+      (child): child is ElementNode => child.type === "element" && child.tagName === "head"
+    );
+    if (head) {
+      head.children.push(...metas);
+    } else {
+      layout.children.unshift(...metas);
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Replace the children of every data-include element with the nodes of the
+ * registered partial. Partials are parsed with the same options, so nested
+ * includes resolve recursively; `includeStack` detects cycles.
+ */
+function resolveIncludes(node: ElementNode, options: ParseOptions, includeStack: string[]): void {
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+
+    const include = child.attributes["data-include"];
+    if (include === undefined) {
+      resolveIncludes(child, options, includeStack);
+      continue;
+    }
+
+    const name = include.trim();
+    if (includeStack.includes(name)) {
+      throw new DslSyntaxError(`Circular data-include: ${[...includeStack, name].join(" -> ")}`, {
+        source: name,
+      });
+    }
+
+    const partial = options.registry?.get(name);
+    if (partial === undefined) {
+      throw new DslSyntaxError(`Unknown partial: ${name}`, { source: name });
+    }
+
+    if (child.children.length > 0) {
+      throw new DslSyntaxError(`Element with data-include="${name}" must be empty`, { source: name });
+    }
+
+    const partialRoot = parseDocument(partial, options, [...includeStack, name]);
+    child.children = unwrapDocument(partialRoot);
+    delete child.attributes["data-include"];
+  }
 }
 
-function parseClosingTag(token: string): string | null {
-  const match = token.match(/^<\s*\/\s*([A-Za-z0-9-]+)\s*>$/);
-  return match ? match[1].toLowerCase() : null;
+/**
+ * Flatten a parsed partial into a node list, unwrapping head and body so
+ * semantic meta tags declared by the partial travel with its content.
+ */
+function unwrapDocument(root: ElementNode): DslNode[] {
+  const nodes: DslNode[] = [];
+  for (const child of root.children) {
+    if (child.type === "element" && (child.tagName === "head" || child.tagName === "body")) {
+      nodes.push(...child.children);
+    } else {
+      nodes.push(child);
+    }
+  }
+  return nodes;
 }
 
-function parseOpenTag(token: string): OpenTagToken | null {
-  const openTagMatch = token.match(/^<\s*([A-Za-z0-9-]+)([\s\S]*?)>$/);
-  if (!openTagMatch) return null;
+/**
+ * Validate control attributes that depend on the surrounding tree:
+ * data-if / data-else-if / data-else chains, data-switch cases and
+ * data-fill regions left without a layout.
+ */
+function validateControlAttributes(node: ElementNode): void {
+  const fill = node.attributes["data-fill"];
+  if (fill !== undefined) {
+    throw new DslSyntaxError('data-fill is only allowed in a template with <meta name="extends">', {
+      source: fill,
+    });
+  }
 
-  const tagName = openTagMatch[1].toLowerCase();
-  const rawAttrs = openTagMatch[2] ?? "";
-  const selfClosing = /\/\s*$/.test(rawAttrs);
+  validateConditionalChain(node);
+  validateSwitchCases(node);
 
-  const attrs: Record<string, string> = {};
-  const attrRe = /([:@A-Za-z0-9_-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'`=<>]+)))?/g;
+  for (const child of node.children) {
+    if (child.type === "element") {
+      validateControlAttributes(child);
+    }
+  }
+}
 
-  for (let attrMatch = attrRe.exec(rawAttrs); attrMatch; attrMatch = attrRe.exec(rawAttrs)) {
-    const key = attrMatch[1].toLowerCase();
-    const value = attrMatch[2] ?? attrMatch[3] ?? attrMatch[4] ?? "";
-    attrs[key] = value;
+/**
+ * Ensure every data-else-if / data-else immediately follows a data-if or
+ * data-else-if sibling, and that no branch of a chain is also iterated.
+ */
+function validateConditionalChain(node: ElementNode): void {
+  let previous: DslNode | undefined;
+
+  for (const child of node.children) {
+    if (child.type === "element") {
+      const attrs = child.attributes;
+      const isElseIf = attrs["data-else-if"] !== undefined;
+      const isElse = attrs["data-else"] !== undefined;
+      const branchKinds = [attrs["data-if"] !== undefined, isElseIf, isElse].filter(Boolean).length;
+
+      if (branchKinds > 1) {
+        throw new DslSyntaxError(
+          `<${child.tagName}> may declare only one of data-if, data-else-if and data-else`,
+          { source: child.tagName }
+        );
+      }
+
+      if (isElseIf || isElse) {
+        const attrName = isElseIf ? "data-else-if" : "data-else";
+        const canFollow =
+          previous?.type === "element" &&
+          (previous.attributes["data-if"] !== undefined || previous.attributes["data-else-if"] !== undefined);
+
+        if (!canFollow) {
+          throw new DslSyntaxError(
+            `${attrName} must immediately follow an element with data-if or data-else-if`,
+            { source: attrs[attrName] || attrName }
+          );
+        }
+
+        for (const branch of [previous as ElementNode, child]) {
+          if (branch.attributes["data-repeat"] !== undefined || branch.attributes["data-page"] !== undefined) {
+            throw new DslSyntaxError(
+              `data-repeat and data-page cannot be combined with a data-if / data-else chain`,
+              { source: branch.attributes["data-repeat"] ?? branch.attributes["data-page"] }
+            );
+          }
+        }
+      }
+    }
+
+    previous = child;
+  }
+}
+
+/**
+ * Ensure data-case / data-default only appear as direct children of a
+ * data-switch element, with unique labels and at most one default.
+ */
+function validateSwitchCases(node: ElementNode): void {
+  const isSwitch = node.attributes["data-switch"] !== undefined;
+  const labels = new Set<string>();
+  let hasDefault = false;
+
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+
+    const label = child.attributes["data-case"];
+    const isDefault = child.attributes["data-default"] !== undefined;
+    if (label === undefined && !isDefault) continue;
+
+    const attrName = isDefault ? "data-default" : "data-case";
+    if (!isSwitch) {
+      throw new DslSyntaxError(`${attrName} must be a direct child of an element with data-switch`, {
+        source: label ?? attrName,
+      });
+    }
+    if (label !== undefined && isDefault) {
+      throw new DslSyntaxError(`<${child.tagName}> may declare only one of data-case and data-default`, {
+        source: label,
+      });
+    }
+
+    if (isDefault) {
+      if (hasDefault) {
+        throw new DslSyntaxError("data-switch may contain only one data-default", { source: attrName });
+      }
+      hasDefault = true;
+      continue;
+    }
+
+    const trimmed = label!.trim();
+    if (trimmed === "") {
+      throw new DslSyntaxError("data-case requires a label", { source: attrName });
+    }
+    if (labels.has(trimmed)) {
+      throw new DslSyntaxError(`Duplicate data-case label: ${trimmed}`, { source: label });
+    }
+    labels.add(trimmed);
   }
 
-  return { tagName, attrs, selfClosing };
+  if (isSwitch && labels.size === 0) {
+    throw new DslSyntaxError("data-switch requires at least one data-case child", {
+      source: node.attributes["data-switch"],
+    });
+  }
 }
 
-function filterAttributes(attrs: Record<string, string>): Record<string, string> {
+function buildTextNode(raw: string, locator: SourceLocator, offset: number): TextNode | null {
+  const segments = parseTextSegments(raw, { locator, offset });
+  if (segments.length === 0) {
+    return null;
+  }
+  return {
+    type: "text",
+    segments: segments.map((segment) =>
+      segment.kind === "literal" ? { ...segment, value: decodeCharacterReferences(segment.value) } : segment
+    ),
+    location: locator.location(offset, offset + raw.length),
+  };
+}
+
+/**
+ * Parse iteration expressions and rendered attribute interpolations while
+ * the template text is at hand, so their errors point into the source.
+ * Interpolations are parsed from the `raw` source text, since the sanitized
+ * style is reformatted and decoding shifts offsets.
+ */
+function checkAttributeExpression(
+  key: string,
+  value: string,
+  raw: string,
+  policy: ResolvedSanitizePolicy,
+  locator: SourceLocator,
+  offset: number
+): void {
+  const location = locator.location(offset, offset + raw.length);
+
+  if (key === "data-repeat" || key === "data-page") {
+    withLocation(location, locator.source, () => parseIterationExpression(value));
+  } else if (policy.attributes.has(key) && raw.includes("{{")) {
+    parseTextSegments(raw, { locator, offset });
+  }
+}
+
+/** Decode character references outside `{{ ... }}`; interpolations are kept as written, as in text. */
+function decodeAttributeValue(value: string): string {
+  return value
+    .split(/(\{\{.*?\}\})/)
+    .map((part, i) => (i % 2 === 0 ? decodeCharacterReferences(part, true) : part))
+    .join("");
+}
+
+/** Locates a whole attribute, or a `[start, end)` range within its value. */
+type AttributeLocator = (key: string, valueRange?: [number, number]) => SourceLocation;
+
+function filterAttributes(
+  tagName: string,
+  attrs: Record<string, string>,
+  locateAttr: AttributeLocator,
+  sanitizer: Sanitizer
+): Record<string, string> {
+  const { policy, report } = sanitizer;
   const filtered: Record<string, string> = {};
 
   for (const [key, value] of Object.entries(attrs)) {
-    if (ALLOWED_ATTRIBUTES.has(key) || ALLOWED_DATA_ATTRIBUTES.has(key)) {
+    if (policy.attributes.has(key) || policy.controlAttributes.has(key)) {
       if (key === "style") {
-        const style = sanitizeStyle(value);
+        const style = sanitizeStyle(tagName, value, locateAttr, sanitizer);
         if (style) {
           filtered.style = style;
         }
         continue;
       }
       filtered[key] = value;
+    } else {
+      report({
+        reason: "attribute",
+        message: `Removed attribute "${key}" from <${tagName}>: attribute is not allowed`,
+        tagName,
+        name: key,
+        location: locateAttr(key),
+      });
     }
   }
 
   return filtered;
 }
 
-function sanitizeStyle(style: string): string {
-  const declarations = style
-    .split(";")
-    .map((entry) => entry.trim())
-    .filter(Boolean);
-
+function sanitizeStyle(tagName: string, style: string, locateAttr: AttributeLocator, sanitizer: Sanitizer): string {
+  const { policy, report } = sanitizer;
   const kept: string[] = [];
 
-  for (const declaration of declarations) {
-    const colonIdx = declaration.indexOf(":");
-    if (colonIdx < 0) continue;
-
-    const property = declaration.slice(0, colonIdx).trim().toLowerCase();
-    const value = declaration.slice(colonIdx + 1).trim();
-
-    if (!ALLOWED_CSS_PROPERTIES.has(property)) {
-      continue;
-    }
-
-    if (BANNED_CSS_PATTERNS.some((pattern) => pattern.test(value))) {
+  for (const declaration of parseCssDeclarations(style)) {
+    const violation = checkCssDeclaration(declaration, policy, true);
+    if (violation) {
+      report({
+        reason: violation.reason,
+        message: `Removed CSS declaration "${declaration.text}" from <${tagName}>: ${violation.why}`,
+        tagName,
+        name: declaration.property,
+        location: locateAttr("style", [declaration.start, declaration.end]),
+      });
       continue;
     }
 
-    kept.push(`${property}:${value}`);
+    kept.push(`${declaration.property}:${declaration.value}`);
   }
 
   return kept.join("; ");
 }
 
-function closeStackUntil(stack: ElementNode[], tagName: string): void {
+function isInsideDropped(stack: ElementNode[], dropped: Set<ElementNode>): boolean {
+  return stack.some((node) => dropped.has(node));
+}
+
+function buildLiteralTextNode(token: TextToken, locator: SourceLocator): TextNode {
+  return {
+    type: "text",
+    segments: [{ kind: "literal", value: token.value }],
+    location: locator.location(token.start, token.end),
+  };
+}
+
+// Elements that end a search for an open element ("has an element in scope" in the HTML tree construction rules).
+const DEFAULT_SCOPE = new Set(["html", "table", "td", "th", "caption", "template", "applet", "marquee", "object"]);
+const BUTTON_SCOPE = new Set([...DEFAULT_SCOPE, "button"]);
+const LIST_ITEM_SCOPE = new Set([...DEFAULT_SCOPE, "ol", "ul"]);
+const TABLE_SCOPE = new Set(["html", "table", "template"]);
+
+const TABLE_PARTS = new Set(["table", "caption", "colgroup", "thead", "tbody", "tfoot", "tr", "td", "th"]);
+
+// Start tags that close an open <p>.
+const CLOSES_P = new Set([
+  "address", "article", "aside", "blockquote", "center", "details", "dialog", "dir", "div", "dl", "fieldset",
+  "figcaption", "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hgroup", "hr", "li",
+  "dd", "dt", "listing", "main", "menu", "nav", "ol", "p", "pre", "search", "section", "summary", "table", "ul",
+  "xmp",
+]);
+
+// Start tags that end open elements of the listed kinds, e.g. a <td> ends the previous cell.
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; scope: ReadonlySet<string> }> = {
+  li: { closes: ["li"], scope: LIST_ITEM_SCOPE },
+  dd: { closes: ["dd", "dt"], scope: DEFAULT_SCOPE },
+  dt: { closes: ["dd", "dt"], scope: DEFAULT_SCOPE },
+  td: { closes: ["td", "th"], scope: TABLE_SCOPE },
+  th: { closes: ["td", "th"], scope: TABLE_SCOPE },
+  tr: { closes: ["tr"], scope: TABLE_SCOPE },
+  thead: { closes: ["thead", "tbody", "tfoot"], scope: TABLE_SCOPE },
+  tbody: { closes: ["thead", "tbody", "tfoot"], scope: TABLE_SCOPE },
+  tfoot: { closes: ["thead", "tbody", "tfoot"], scope: TABLE_SCOPE },
+};
+
+/** Close the elements a start tag implicitly ends, as `<li>` ends an open `<li>` and `<div>` an open `<p>`. */
+function closeImpliedElements(stack: ElementNode[], tagName: string, end: SourcePosition): void {
+  const implied = IMPLIED_END_TAGS[tagName];
+  if (implied) {
+    const index = findInScope(stack, implied.closes, implied.scope);
+    if (index > 0) closeFrom(stack, index, end);
+  }
+
+  if (CLOSES_P.has(tagName)) {
+    const index = findInScope(stack, ["p"], BUTTON_SCOPE);
+    if (index > 0) closeFrom(stack, index, end);
+  }
+}
+
+/** Handle an end tag: close the matching open element if it is in scope, otherwise ignore the tag. */
+function closeElement(stack: ElementNode[], tagName: string, end: SourcePosition): void {
+  const scope =
+    tagName === "p"
+      ? BUTTON_SCOPE
+      : tagName === "li"
+        ? LIST_ITEM_SCOPE
+        : TABLE_PARTS.has(tagName)
+          ? TABLE_SCOPE
+          : DEFAULT_SCOPE;
+  const index = findInScope(stack, [tagName], scope);
+  if (index > 0) closeFrom(stack, index, end);
+}
+
+/** Index of the innermost open element named in `tagNames`, searching up to a scope boundary; -1 if none. */
+function findInScope(stack: ElementNode[], tagNames: string[], scope: ReadonlySet<string>): number {
   for (let i = stack.length - 1; i >= 1; i--) {
-    if (stack[i].tagName === tagName) {
-      stack.length = i;
-      return;
-    }
+    if (tagNames.includes(stack[i].tagName)) return i;
+    if (scope.has(stack[i].tagName)) return -1;
+  }
+  return -1;
+}
+
+function closeFrom(stack: ElementNode[], index: number, end: SourcePosition): void {
+  for (const closed of stack.slice(index)) {
+    if (closed.location) closed.location.end = end;
   }
+  stack.length = index;
 }
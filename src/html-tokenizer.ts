@@ -0,0 +1,257 @@
+/**
+ * State-machine HTML tokenizer, following the HTML5 tokenization states the
+ * DSL needs: tags and attributes (quoted values may contain `<` and `>`),
+ * comments, DOCTYPE, CDATA sections and the raw text of `script` / `style`
+ * like elements. Offsets index into the tokenized source.
+ */
+
+export interface HtmlAttribute {
+  /** Lower-cased attribute name. */
+  name: string;
+  /** The value as written, without quotes; character references are not decoded. */
+  value: string;
+  nameStart: number;
+  valueStart: number;
+  /** End of the attribute, after the closing quote if any. */
+  end: number;
+}
+
+export interface StartTagToken {
+  type: "startTag";
+  tagName: string;
+  attributes: HtmlAttribute[];
+  selfClosing: boolean;
+  start: number;
+  end: number;
+}
+
+export interface EndTagToken {
+  type: "endTag";
+  tagName: string;
+  start: number;
+  end: number;
+}
+
+export interface TextToken {
+  type: "text";
+  value: string;
+  /** CDATA or raw text content: neither character references nor interpolations apply. */
+  literal: boolean;
+  start: number;
+  end: number;
+}
+
+/** Comments, including bogus ones such as `<?xml ...?>`. */
+export interface CommentToken {
+  type: "comment";
+  start: number;
+  end: number;
+}
+
+export interface DoctypeToken {
+  type: "doctype";
+  start: number;
+  end: number;
+}
+
+export type HtmlToken = StartTagToken | EndTagToken | TextToken | CommentToken | DoctypeToken;
+
+/** HTML void elements: no content and no end tag. */
+export const VOID_TAGS: ReadonlySet<string> = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+// Elements whose content is not markup, up to the matching end tag. RCDATA content still decodes references.
+const RAWTEXT_TAGS = new Set(["script", "style", "xmp", "iframe", "noembed", "noframes", "noscript"]);
+const RCDATA_TAGS = new Set(["title", "textarea"]);
+
+const WHITESPACE_RE = /[\t\n\f\r ]/;
+const ASCII_ALPHA_RE = /[A-Za-z]/;
+// Same extent as an interpolation in parseTextSegments: `{{` to the next `}}` on one line.
+const INTERPOLATION_RE = /\{\{.*?\}\}/y;
+
+/**
+ * Split `html` into tokens. `{{ ... }}` in text is kept whole, so a
+ * constraint such as `pattern:"<[a-z]+>"` is not read as markup. A tag left
+ * open at the end of the input is dropped, as in HTML.
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let textStart = 0;
+  let pos = 0;
+
+  const flushText = (end: number): void => {
+    if (end > textStart) {
+      tokens.push({ type: "text", value: html.slice(textStart, end), literal: false, start: textStart, end });
+    }
+  };
+
+  while (pos < html.length) {
+    if (html.startsWith("{{", pos)) {
+      INTERPOLATION_RE.lastIndex = pos;
+      if (INTERPOLATION_RE.test(html)) {
+        pos = INTERPOLATION_RE.lastIndex;
+        continue;
+      }
+    }
+
+    const token = html[pos] === "<" ? readMarkup(html, pos) : null;
+    if (!token) {
+      pos++;
+      continue;
+    }
+
+    flushText(pos);
+    tokens.push(token);
+    pos = textStart = token.end;
+
+    if (token.type === "startTag" && !token.selfClosing) {
+      const rawText = RAWTEXT_TAGS.has(token.tagName);
+      if (rawText || RCDATA_TAGS.has(token.tagName)) {
+        const end = findEndTag(html, pos, token.tagName);
+        if (end > pos) {
+          tokens.push({ type: "text", value: html.slice(pos, end), literal: rawText, start: pos, end });
+        }
+        pos = textStart = end;
+      }
+    }
+  }
+
+  flushText(html.length);
+  return tokens;
+}
+
+/** Read the markup starting with the `<` at `start`, or return null when it is plain text. */
+function readMarkup(html: string, start: number): HtmlToken | null {
+  const next = html[start + 1] ?? "";
+
+  if (html.startsWith("<!--", start)) {
+    // `<!-->` and `<!--->` are empty comments.
+    const abrupt = html.startsWith(">", start + 4) ? 5 : html.startsWith("->", start + 4) ? 6 : 0;
+    return { type: "comment", start, end: abrupt ? start + abrupt : endAfter(html, "-->", start + 4) };
+  }
+
+  if (html.startsWith("<![CDATA[", start)) {
+    const close = html.indexOf("]]>", start + 9);
+    const contentEnd = close < 0 ? html.length : close;
+    const end = close < 0 ? html.length : close + 3;
+    return { type: "text", value: html.slice(start + 9, contentEnd), literal: true, start, end };
+  }
+
+  if (next === "!") {
+    const end = endAfter(html, ">", start + 2);
+    return html.slice(start + 2, start + 9).toLowerCase() === "doctype"
+      ? { type: "doctype", start, end }
+      : { type: "comment", start, end };
+  }
+
+  if (next === "?") {
+    return { type: "comment", start, end: endAfter(html, ">", start + 2) };
+  }
+
+  if (next === "/") {
+    const first = html[start + 2] ?? "";
+    if (first === ">") {
+      return { type: "comment", start, end: start + 3 };
+    }
+    if (!ASCII_ALPHA_RE.test(first)) {
+      return first === "" ? null : { type: "comment", start, end: endAfter(html, ">", start + 2) };
+    }
+    const tag = readTag(html, start + 2);
+    return tag
+      ? { type: "endTag", tagName: tag.tagName, start, end: tag.end }
+      : { type: "comment", start, end: html.length };
+  }
+
+  if (ASCII_ALPHA_RE.test(next)) {
+    const tag = readTag(html, start + 1);
+    return tag ? { type: "startTag", ...tag, start } : { type: "comment", start, end: html.length };
+  }
+
+  return null;
+}
+
+/** Read a tag name and its attributes up to the closing `>`. Returns null at the end of input. */
+function readTag(
+  html: string,
+  nameStart: number
+): { tagName: string; attributes: HtmlAttribute[]; selfClosing: boolean; end: number } | null {
+  let pos = nameStart;
+  while (pos < html.length && !/[\t\n\f\r />]/.test(html[pos])) pos++;
+
+  const tagName = html.slice(nameStart, pos).toLowerCase();
+  const attributes: HtmlAttribute[] = [];
+  let selfClosing = false;
+
+  while (pos < html.length) {
+    const char = html[pos];
+
+    if (WHITESPACE_RE.test(char)) {
+      pos++;
+      continue;
+    }
+    if (char === ">") {
+      return { tagName, attributes, selfClosing, end: pos + 1 };
+    }
+    if (char === "/") {
+      pos++;
+      selfClosing = html[pos] === ">";
+      continue;
+    }
+
+    const attribute = readAttribute(html, pos);
+    if (!attribute) return null;
+
+    // The first occurrence of a duplicated attribute wins.
+    if (!attributes.some((existing) => existing.name === attribute.name)) {
+      attributes.push(attribute);
+    }
+    pos = attribute.end;
+  }
+
+  return null;
+}
+
+function readAttribute(html: string, nameStart: number): HtmlAttribute | null {
+  // A leading "=" is part of the name.
+  let pos = nameStart + 1;
+  while (pos < html.length && !/[\t\n\f\r />=]/.test(html[pos])) pos++;
+
+  const name = html.slice(nameStart, pos).toLowerCase();
+  const nameEnd = pos;
+
+  pos = skipWhitespace(html, pos);
+  if (html[pos] !== "=") {
+    return { name, value: "", nameStart, valueStart: nameEnd, end: nameEnd };
+  }
+
+  pos = skipWhitespace(html, pos + 1);
+  const quote = html[pos];
+  if (quote === '"' || quote === "'") {
+    const close = html.indexOf(quote, pos + 1);
+    if (close < 0) return null;
+    return { name, value: html.slice(pos + 1, close), nameStart, valueStart: pos + 1, end: close + 1 };
+  }
+
+  const valueStart = pos;
+  while (pos < html.length && !/[\t\n\f\r >]/.test(html[pos])) pos++;
+  return { name, value: html.slice(valueStart, pos), nameStart, valueStart, end: pos };
+}
+
+/** Offset of the `</tagName` that ends raw text content, or the end of input. */
+function findEndTag(html: string, from: number, tagName: string): number {
+  const endTagRe = new RegExp(`</${tagName}(?=[\\t\\n\\f\\r />])`, "gi");
+  endTagRe.lastIndex = from;
+  const match = endTagRe.exec(html);
+  return match ? match.index : html.length;
+}
+
+function endAfter(html: string, terminator: string, from: number): number {
+  const index = html.indexOf(terminator, from);
+  return index < 0 ? html.length : index + terminator.length;
+}
+
+function skipWhitespace(html: string, pos: number): number {
+  while (pos < html.length && WHITESPACE_RE.test(html[pos])) pos++;
+  return pos;
+}
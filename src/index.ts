@@ -1,65 +1,139 @@
 import { parseHtml } from "./html-parser.js";
+import type { ParseOptions } from "./html-parser.js";
 import { renderAst } from "./renderer.js";
+import type { RenderOptions } from "./renderer.js";
 import { extractSchemaFromAst } from "./schema-extractor.js";
+import type { ExtractSchemaOptions } from "./schema-extractor.js";
+import { generateTypesFromAst } from "./type-generator.js";
+import type { GenerateTypesOptions } from "./type-generator.js";
 import { validateData } from "./validator.js";
+import { allowingMistypedDateFormat } from "./expression-parser.js";
+import { lintAst } from "./linter.js";
+import type { LintConfig, LintDiagnostic } from "./linter.js";
+import type { ValidateOptions } from "./validator.js";
 import { DslError, DslSyntaxError, SchemaExtractionError, DataValidationError, RenderError } from "./errors.js";
 
 export { parseTextSegments } from "./expression-parser.js";
+export { parseCondition } from "./condition-parser.js";
 export { parseHtml } from "./html-parser.js";
 export { extractSchemaFromAst } from "./schema-extractor.js";
+export { convertSchemaDialect } from "./schema-dialects.js";
+export { generateTypesFromAst } from "./type-generator.js";
 export { renderAst } from "./renderer.js";
+export { compile } from "./template.js";
+export { compileRenderFunction, createCodegenRuntime, generateRenderSource } from "./codegen.js";
 export { applyFilters } from "./filters.js";
-export { validateData } from "./validator.js";
+export { printDsl } from "./printer.js";
+export { traverseDsl } from "./visitor.js";
+export { lintAst, DEFAULT_LINT_RULES } from "./linter.js";
+export { SCOPE_VARIABLE_NAMES, SCOPE_VARIABLE_TYPES } from "./scope-variables.js";
+export { createSourceLocator, formatCodeFrame } from "./source-location.js";
+export { DEFAULT_SANITIZE_POLICY, resolveSanitizePolicy } from "./sanitize-policy.js";
+export { DEFAULT_FONT_FAMILIES } from "./css-grammar.js";
+export { validateData, checkData } from "./validator.js";
 export { DslError, DslSyntaxError, SchemaExtractionError, DataValidationError, RenderError } from "./errors.js";
 
-export function parseDslAst(htmlDSL: string) {
+export function parseDslAst(htmlDSL: string, options: ParseOptions = {}) {
   try {
-    return parseHtml(htmlDSL);
+    return parseHtml(htmlDSL, options);
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new DslSyntaxError(err instanceof Error ? err.message : String(err), { cause: err });
   }
 }
 
-export function extractSchema(htmlDSL: string): Record<string, unknown> {
+export function extractSchema(
+  htmlDSL: string,
+  options: ParseOptions & ExtractSchemaOptions = {}
+): Record<string, unknown> {
   try {
-    const ast = parseHtml(htmlDSL);
-    return extractSchemaFromAst(ast);
+    const ast = parseHtml(htmlDSL, options);
+    return extractSchemaFromAst(ast, options);
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new SchemaExtractionError(err instanceof Error ? err.message : String(err), { cause: err });
   }
 }
 
-export function render(htmlDSL: string, data: Record<string, unknown>): string {
+export function render(
+  htmlDSL: string,
+  data: Record<string, unknown>,
+  options: ParseOptions & RenderOptions = {}
+): string {
   try {
-    const ast = parseHtml(htmlDSL);
-    return `<!doctype html>${renderAst(ast, data)}`;
+    const ast = parseHtml(htmlDSL, options);
+    return `<!doctype html>${renderAst(ast, data, options)}`;
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
   }
 }
 
-export function validate(data: Record<string, unknown>, schema: Record<string, unknown>): void {
+export function validate(
+  data: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  options: ValidateOptions = {}
+): void {
   try {
-    validateData(data, schema);
+    validateData(data, schema, options);
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new DataValidationError(err instanceof Error ? err.message : String(err), { cause: err });
   }
 }
 
+export function generateTypes(htmlDSL: string, options: ParseOptions & GenerateTypesOptions = {}): string {
+  try {
+    return generateTypesFromAst(parseHtml(htmlDSL, options), options);
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new SchemaExtractionError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
+
+export function lint(htmlDSL: string, config: ParseOptions & LintConfig = {}): LintDiagnostic[] {
+  try {
+    return lintAst(allowingMistypedDateFormat(() => parseHtml(htmlDSL, config)), config);
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new DslSyntaxError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
+
 export type {
   DslNode,
   ElementNode,
   TextNode,
+  SourcePosition,
+  SourceLocation,
   TextSegment,
   LiteralSegment,
   InterpolationSegment,
   DataType,
   Constraint,
   Filter,
+  ConditionExpression,
+  ComparisonOperator,
+  PathCondition,
+  LiteralCondition,
+  NotCondition,
+  LogicalCondition,
+  ComparisonCondition,
 } from "./types.js";
 
-export type { ErrorCategory } from "./errors.js";
+export type { ErrorCategory, ValidationIssue } from "./errors.js";
+export type { ParseOptions, TemplateRegistry, SanitizeDiagnostic, SanitizeReason } from "./html-parser.js";
+export type { TextOrigin } from "./expression-parser.js";
+export type { SanitizePolicy, ResolvedSanitizePolicy } from "./sanitize-policy.js";
+export type { SourceLocator } from "./source-location.js";
+export type { RenderAstOptions, RenderOptions } from "./renderer.js";
+export type { PrintOptions } from "./printer.js";
+export type { LintConfig, LintDiagnostic, LintRule, LintSeverity } from "./linter.js";
+export type { DslVisitor, NodeVisitor, VisitHook, VisitContext, SegmentContext } from "./visitor.js";
+export type { Template, CompileOptions } from "./template.js";
+export type { RenderFunction, CodegenRuntime } from "./codegen.js";
+export type { GlobalConfig } from "./dsl-utils.js";
+export type { ExtractSchemaOptions } from "./schema-extractor.js";
+export type { SchemaDialect } from "./schema-dialects.js";
+export type { GenerateTypesOptions } from "./type-generator.js";
+export type { ValidateOptions, ValidationResult } from "./validator.js";
@@ -0,0 +1,186 @@
+import { parseCondition } from "./condition-parser.js";
+import { withLocation } from "./errors.js";
+import { allowingMistypedDateFormat } from "./expression-parser.js";
+import type { SanitizePolicy } from "./sanitize-policy.js";
+import { collectDeclarationConflicts } from "./schema-extractor.js";
+import { isScopeVariablePath } from "./scope-variables.js";
+import { traverseDsl } from "./visitor.js";
+import type { ConditionExpression, ElementNode, SourceLocation } from "./types.js";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "conflicting-types"
+  | "rows-without-repeat"
+  | "invalid-row-count"
+  | "unused-semantic-meta"
+  | "nullable-condition"
+  | "date-format-type";
+
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** The data path concerned, resolved through `data-repeat` / `data-page` aliases. */
+  path?: string;
+  location?: SourceLocation;
+}
+
+export interface LintConfig {
+  /** Change the severity of a rule, or turn it `"off"`. Unlisted rules use `DEFAULT_LINT_RULES`. */
+  rules?: Partial<Record<LintRule, LintSeverity | "off">>;
+  /** The policy the template was parsed with, as for `extractSchemaFromAst`. */
+  policy?: SanitizePolicy;
+}
+
+export const DEFAULT_LINT_RULES: Readonly<Record<LintRule, LintSeverity>> = {
+  "conflicting-types": "error",
+  "rows-without-repeat": "warning",
+  "invalid-row-count": "error",
+  "unused-semantic-meta": "warning",
+  "nullable-condition": "warning",
+  "date-format-type": "error",
+};
+
+const DATE_TYPES = new Set(["date", "time", "datetime"]);
+const ROW_COUNT_ATTRIBUTES = ["data-fixed-rows", "data-max-rows"];
+const SEMANTIC_META_PREFIXES = ["semantic-description:", "semantic-instruction:", "semantic-examples:"];
+
+type Report = (rule: LintRule, message: string, path?: string, location?: SourceLocation) => void;
+
+interface ConditionUse {
+  path: string;
+  attribute: string;
+  location?: SourceLocation;
+}
+
+/**
+ * Check a parsed template for mistakes the engine accepts silently. Findings
+ * are returned, not thrown; invalid `data-if` expressions and schema
+ * extraction errors other than conflicting declarations still throw.
+ */
+export function lintAst(root: ElementNode, config: LintConfig = {}): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const report: Report = (rule, message, path, location) => {
+    const severity = config.rules?.[rule] ?? DEFAULT_LINT_RULES[rule];
+    if (severity === "off") return;
+    const diagnostic: LintDiagnostic = { rule, severity, message };
+    if (path !== undefined) diagnostic.path = path;
+    if (location) diagnostic.location = location;
+    diagnostics.push(diagnostic);
+  };
+
+  // The same conflicts extractSchema throws for, so lint and extraction agree.
+  const conflicts = allowingMistypedDateFormat(() => collectDeclarationConflicts(root, { policy: config.policy }));
+  for (const conflict of conflicts) {
+    report("conflicting-types", conflict.message, conflict.path, conflict.location);
+  }
+
+  const declaredPaths = new Set<string>();
+  const nullablePaths = new Set<string>();
+  const conditions: ConditionUse[] = [];
+  const metas: { path: string; location?: SourceLocation }[] = [];
+
+  // Attribute values are parsed again while visiting.
+  allowingMistypedDateFormat(() => traverseDsl(root, {
+    element: (node, context) => {
+      checkRowCounts(node, report);
+
+      for (const attribute of ["data-if", "data-else-if"]) {
+        const expr = node.attributes[attribute];
+        if (!expr) continue;
+        const condition = withLocation(node.location, undefined, () => parseCondition(expr));
+        for (const path of conditionPaths(condition)) {
+          if (isScopeVariablePath(path)) continue;
+          conditions.push({ path: context.resolvePath(path), attribute, location: node.location });
+        }
+      }
+
+      const metaName = node.tagName === "meta" ? (node.attributes.name ?? "") : "";
+      const prefix = SEMANTIC_META_PREFIXES.find((candidate) => metaName.startsWith(candidate));
+      if (prefix) metas.push({ path: metaName.slice(prefix.length), location: node.location });
+    },
+    interpolation: (segment, context) => {
+      // Scope variables are checked by the parser and are not data.
+      if (isScopeVariablePath(segment.path)) return;
+      const path = context.resolvePath(segment.path);
+      const location = segment.location ?? context.element.location;
+      if (segment.nullable) nullablePaths.add(path);
+      declaredPaths.add(path);
+
+      if (segment.filters.some((filter) => filter.name === "date-format") && !DATE_TYPES.has(segment.dataType)) {
+        report(
+          "date-format-type",
+          `date-format is applied to "${path}", which is declared as ${segment.dataType}; use date, time or datetime`,
+          path,
+          location
+        );
+      }
+    },
+  }));
+
+  for (const use of conditions) {
+    if (nullablePaths.has(use.path)) {
+      report(
+        "nullable-condition",
+        `${use.attribute} uses the nullable field "${use.path}" without comparing it with null`,
+        use.path,
+        use.location
+      );
+    }
+  }
+
+  for (const meta of metas) {
+    if (!declaredPaths.has(meta.path)) {
+      report(
+        "unused-semantic-meta",
+        `Semantic meta for "${meta.path}" matches no interpolation`,
+        meta.path,
+        meta.location
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkRowCounts(node: ElementNode, report: Report): void {
+  for (const attribute of ROW_COUNT_ATTRIBUTES) {
+    const value = node.attributes[attribute];
+    if (value === undefined) continue;
+
+    if (node.attributes["data-repeat"] === undefined && node.attributes["data-page"] === undefined) {
+      const message = `${attribute} has no effect without data-repeat or data-page`;
+      report("rows-without-repeat", message, undefined, node.location);
+    }
+    if (!/^\s*\d+\s*$/.test(value) || Number(value) === 0) {
+      report(
+        "invalid-row-count",
+        `${attribute} must be a positive integer, got ${JSON.stringify(value)}`,
+        undefined,
+        node.location
+      );
+    }
+  }
+}
+
+/** Path operands of a condition, except those compared with `null`; `items.length` counts as `items`. */
+function conditionPaths(expr: ConditionExpression): string[] {
+  switch (expr.kind) {
+    case "path":
+      return [expr.path.endsWith(".length") ? expr.path.slice(0, -".length".length) : expr.path];
+    case "literal":
+      return [];
+    case "not":
+      return conditionPaths(expr.operand);
+    case "logical":
+      return [...conditionPaths(expr.left), ...conditionPaths(expr.right)];
+    case "compare":
+      if (isNullLiteral(expr.left) || isNullLiteral(expr.right)) return [];
+      return [...conditionPaths(expr.left), ...conditionPaths(expr.right)];
+  }
+}
+
+function isNullLiteral(expr: ConditionExpression): boolean {
+  return expr.kind === "literal" && expr.value === null;
+}
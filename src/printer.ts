@@ -0,0 +1,166 @@
+import { DslSyntaxError } from "./errors.js";
+import { VOID_TAGS } from "./html-tokenizer.js";
+import type { Constraint, DslNode, ElementNode, Filter, InterpolationSegment, TextNode } from "./types.js";
+
+export interface PrintOptions {
+  /**
+   * Indentation per nesting level (default two spaces). Elements whose
+   * children are all elements print one child per line; content that mixes
+   * text and elements stays on one line. `false` prints everything inline.
+   */
+  indent?: string | false;
+  /** `"source"` (default) keeps the parsed order, `"alphabetical"` sorts by name, or compare names yourself. */
+  attributeOrder?: "source" | "alphabetical" | ((a: string, b: string) => number);
+}
+
+interface PrintContext {
+  indent: string | false;
+  compare?: (a: string, b: string) => number;
+}
+
+// Same extent as an interpolation in parseTextSegments.
+const INTERPOLATION_SPLIT_RE = /(\{\{.*?\}\})/;
+
+/**
+ * Serialize an AST back to DSL source. Interpolations in text are printed in
+ * canonical form (`{{ path:type? (constraints) | filters }}`); attribute
+ * values are printed as stored. Parsing the output yields an AST equal to
+ * `node`, apart from source locations.
+ */
+export function printDsl(node: DslNode, options: PrintOptions = {}): string {
+  const { attributeOrder = "source" } = options;
+  const context: PrintContext = {
+    indent: options.indent ?? "  ",
+    compare:
+      attributeOrder === "source"
+        ? undefined
+        : attributeOrder === "alphabetical"
+          ? (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+          : attributeOrder,
+  };
+
+  return node.type === "text" ? printText(node) : printElement(node, context, 0);
+}
+
+function printElement(node: ElementNode, context: PrintContext, depth: number): string {
+  const names = Object.keys(node.attributes);
+  if (context.compare) names.sort(context.compare);
+
+  const open = `<${node.tagName}${names.map((name) => ` ${printAttribute(name, node.attributes[name])}`).join("")}>`;
+
+  if (VOID_TAGS.has(node.tagName)) {
+    if (node.children.length > 0) {
+      throw new DslSyntaxError(`Cannot print <${node.tagName}> with children: it is a void element`, {
+        source: node.tagName,
+      });
+    }
+    return open;
+  }
+
+  const { indent } = context;
+  if (indent !== false && node.children.length > 0 && node.children.every((child) => child.type === "element")) {
+    // Whitespace between elements is dropped when parsing, so the added line breaks do not change the AST.
+    const lines = node.children.map(
+      (child) => `\n${indent.repeat(depth + 1)}${printElement(child as ElementNode, context, depth + 1)}`
+    );
+    return `${open}${lines.join("")}\n${indent.repeat(depth)}</${node.tagName}>`;
+  }
+
+  const inline: PrintContext = { ...context, indent: false };
+  const children = node.children.map((child, i) => {
+    const printed = child.type === "text" ? printText(child) : printElement(child, inline, depth + 1);
+    // Adjacent text nodes would merge when reparsed; an empty comment keeps them apart.
+    return child.type === "text" && node.children[i - 1]?.type === "text" ? `<!---->${printed}` : printed;
+  });
+  return `${open}${children.join("")}</${node.tagName}>`;
+}
+
+function printAttribute(name: string, value: string): string {
+  if (value === "") return name;
+
+  // Interpolations are kept as written, so they decide the quote character.
+  const parts = value.split(INTERPOLATION_SPLIT_RE);
+  const expressions = parts.filter((_, i) => i % 2 === 1).join("");
+  const quote = !expressions.includes('"') ? '"' : !expressions.includes("'") ? "'" : undefined;
+  if (!quote) {
+    throw new DslSyntaxError(`Cannot print attribute "${name}": its interpolations use both quote characters`, {
+      source: value,
+    });
+  }
+
+  const escaped = parts.map((part, i) =>
+    i % 2 === 1 ? part : part.replaceAll("&", "&amp;").replaceAll(quote, quote === '"' ? "&quot;" : "&#39;")
+  );
+  return `${name}=${quote}${escaped.join("")}${quote}`;
+}
+
+function printText(node: TextNode): string {
+  const text = node.segments
+    .map((segment) => (segment.kind === "literal" ? escapeText(segment.value) : printInterpolation(segment)))
+    .join("");
+
+  // Whitespace-only text is dropped when parsing; writing the first character as a reference keeps it.
+  return text !== "" && text.trim() === "" ? `&#${text.charCodeAt(0)};${text.slice(1)}` : text;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replace(/\{(?=\{|$)/g, "&#123;");
+}
+
+/** Print a segment as `{{ path:type? (constraints) | filters }}`. */
+export function printInterpolation(segment: InterpolationSegment): string {
+  let inner = `${segment.path}:${segment.dataType}${segment.nullable ? "?" : ""}`;
+  if (segment.constraints.length > 0) {
+    inner += ` (${segment.constraints.map(printConstraint).join(", ")})`;
+  }
+  for (const filter of segment.filters) {
+    inner += ` | ${printFilter(filter)}`;
+  }
+
+  if (/[\n\r\u2028\u2029]|\}\}/.test(inner)) {
+    throw new DslSyntaxError(
+      `Cannot print interpolation of "${segment.path}": values may not contain "}}" or line breaks`,
+      { path: segment.path, source: inner }
+    );
+  }
+  return `{{ ${inner} }}`;
+}
+
+function printConstraint(constraint: Constraint): string {
+  switch (constraint.kind) {
+    case "enum":
+      return `enum:${constraint.values.map(printConstraintValue).join(",")}`;
+    case "minLength":
+      return `min:${constraint.value}`;
+    case "maxLength":
+      return `max:${constraint.value}`;
+    case "pattern":
+      return `pattern:${quote(constraint.value)}`;
+    case "fixed":
+      return `fixed:${printConstraintValue(constraint.value)}`;
+    default:
+      return `${constraint.kind}:${constraint.value}`;
+  }
+}
+
+function printConstraintValue(value: string | number | boolean): string {
+  return typeof value === "string" ? quote(value) : String(value);
+}
+
+function printFilter(filter: Filter): string {
+  if (filter.args.length === 0) return filter.name;
+
+  const args = filter.args.map((arg) => (arg === "" || arg !== arg.trim() || /[,|"']/.test(arg) ? quote(arg) : arg));
+  return `${filter.name}:${args.join(",")}`;
+}
+
+/** Quote a value for an interpolation. The DSL has no escapes, so the quote character must not occur in it. */
+function quote(value: string): string {
+  if (!value.includes('"')) return `"${value}"`;
+  if (!value.includes("'")) return `'${value}'`;
+  throw new DslSyntaxError("Cannot print a value containing both quote characters", { source: value });
+}
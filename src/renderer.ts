@@ -1,61 +1,191 @@
-import { DslError, RenderError } from "./errors.js";
+import { DslError, RenderError, withLocation } from "./errors.js";
 import { applyFilters } from "./filters.js";
 import {
   cloneAliasMap,
   collectGlobalConfig,
   escapeHtml,
   getByPath,
-  isVoidTag,
   parseIterationExpression,
+  parseSwitchExpression,
 } from "./dsl-utils.js";
+import { parseCondition } from "./condition-parser.js";
 import { parseTextSegments } from "./expression-parser.js";
-import type { DslNode, ElementNode } from "./types.js";
+import type { GlobalConfig } from "./dsl-utils.js";
+import { resolveSanitizePolicy, sanitizeAttributeValue } from "./sanitize-policy.js";
+import type { ResolvedSanitizePolicy, SanitizePolicy } from "./sanitize-policy.js";
+import { iterationScopeVariables } from "./scope-variables.js";
+import type { ConditionExpression, DslNode, ElementNode, TextSegment } from "./types.js";
 
 export interface RenderOptions {
   timezone?: string;
+  /** Raise `RenderError` for values that `date-format` cannot interpret instead of echoing them. */
+  strictDates?: boolean;
 }
 
-const CONTROL_ATTRIBUTES = new Set([
-  "data-page",
-  "data-repeat",
-  "data-if",
-  "data-break-before",
-  "data-break-after",
-  "data-fixed-rows",
-  "data-max-rows",
-  "data-format",
-  "data-semantic-description",
-  "data-semantic-instruction",
-  "data-semantic-examples",
-]);
+/** Options for `renderAst`, which prepares the AST itself; prepared and compiled templates carry their policy. */
+export interface RenderAstOptions extends RenderOptions {
+  /** The policy the AST was parsed with; decides which attributes are control attributes and which tags are void. */
+  policy?: SanitizePolicy;
+}
+
+/**
+ * An AST whose control attributes and attribute interpolations have been
+ * parsed once, so it can be rendered repeatedly without reparsing.
+ */
+export interface PreparedAst {
+  root: ElementNode;
+  globalConfig: GlobalConfig;
+  elements: WeakMap<ElementNode, PreparedElement>;
+  policy: ResolvedSanitizePolicy;
+}
+
+export interface PreparedElement {
+  iteration?: PreparedIteration;
+  condition?: ConditionExpression;
+  elseIfCondition?: ConditionExpression;
+  isElse: boolean;
+  switchPath?: string;
+  isVoid: boolean;
+  /**
+   * Output attributes; plain strings are already rendered. Interpolated values
+   * are re-checked against the policy when rendered.
+   */
+  attributes: (string | PreparedAttribute)[];
+  style?: string | PreparedAttribute;
+}
+
+export interface PreparedIteration {
+  path: string;
+  alias: string;
+  maxCount: number;
+  fixedCount: number;
+}
+
+export interface PreparedAttribute {
+  name: string;
+  segments: TextSegment[];
+}
 
 interface RenderContext {
   data: Record<string, unknown>;
   aliases: Record<string, unknown>;
   timezone: string;
+  strict: boolean;
+  elements: WeakMap<ElementNode, PreparedElement>;
+  policy: ResolvedSanitizePolicy;
 }
 
 export function renderAst(
   root: ElementNode,
   data: Record<string, unknown>,
-  options: RenderOptions = {}
+  options: RenderAstOptions = {}
 ): string {
   try {
-    const globalConfig = collectGlobalConfig(root);
+    return renderPreparedAst(prepareAst(root, options.policy), data, options);
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
+
+/**
+ * Parse every control attribute and attribute interpolation of the tree up
+ * front. Invalid expressions are reported here, even in branches that would
+ * never render.
+ */
+export function prepareAst(root: ElementNode, policy?: SanitizePolicy): PreparedAst {
+  try {
+    const elements = new WeakMap<ElementNode, PreparedElement>();
+    const resolved = resolveSanitizePolicy(policy);
+    prepareElement(root, elements, resolved);
+
+    return { root, globalConfig: collectGlobalConfig(root), elements, policy: resolved };
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
 
+export function renderPreparedAst(
+  prepared: PreparedAst,
+  data: Record<string, unknown>,
+  options: RenderOptions = {}
+): string {
+  try {
     const context: RenderContext = {
       data,
       aliases: {},
-      timezone: options.timezone ?? globalConfig.timezone,
+      timezone: options.timezone ?? prepared.globalConfig.timezone,
+      strict: options.strictDates ?? false,
+      elements: prepared.elements,
+      policy: prepared.policy,
     };
 
-    return renderElement(root, context);
+    return renderElement(prepared.root, context);
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new RenderError(err instanceof Error ? err.message : String(err), { cause: err });
   }
 }
 
+function prepareElement(
+  node: ElementNode,
+  elements: WeakMap<ElementNode, PreparedElement>,
+  policy: ResolvedSanitizePolicy
+): void {
+  const attrs = node.attributes;
+  const iterationExpr = attrs["data-page"] || attrs["data-repeat"];
+
+  const prepared: PreparedElement = {
+    iteration: iterationExpr ? prepareIteration(node, iterationExpr) : undefined,
+    condition: attrs["data-if"] ? parseCondition(attrs["data-if"]) : undefined,
+    elseIfCondition: attrs["data-else-if"] !== undefined ? parseCondition(attrs["data-else-if"]) : undefined,
+    isElse: attrs["data-else"] !== undefined,
+    switchPath: attrs["data-switch"] ? parseSwitchExpression(attrs["data-switch"]) : undefined,
+    isVoid: policy.voidTags.has(node.tagName),
+    attributes: [],
+    style: buildStyleAttribute(node),
+  };
+
+  for (const [key, value] of Object.entries(attrs)) {
+    if (policy.controlAttributes.has(key) || key === "style") {
+      continue;
+    }
+    prepared.attributes.push(prepareAttribute(key, value));
+  }
+
+  elements.set(node, prepared);
+
+  for (const child of node.children) {
+    if (child.type === "element") {
+      prepareElement(child, elements, policy);
+    }
+  }
+}
+
+function prepareIteration(node: ElementNode, expression: string): PreparedIteration {
+  const { path, alias } = withLocation(node.location, undefined, () => parseIterationExpression(expression));
+  const maxRowsAttr = node.attributes["data-max-rows"];
+  const fixedRowsAttr = node.attributes["data-fixed-rows"];
+
+  return {
+    path,
+    alias,
+    maxCount: maxRowsAttr ? parseInt(maxRowsAttr, 10) : Infinity,
+    fixedCount: fixedRowsAttr ? parseInt(fixedRowsAttr, 10) : 0,
+  };
+}
+
+function getPrepared(node: ElementNode, context: RenderContext): PreparedElement {
+  const prepared = context.elements.get(node);
+  if (!prepared) {
+    throw new RenderError(`<${node.tagName}> was added after the template was prepared`, {
+      source: node.tagName,
+    });
+  }
+  return prepared;
+}
+
 function renderNode(node: DslNode, context: RenderContext): string {
   if (node.type === "text") {
     return node.segments
@@ -68,6 +198,7 @@ function renderNode(node: DslNode, context: RenderContext): string {
         const filtered = applyFilters(resolved, segment.filters, {
           dataType: segment.dataType,
           timezone: context.timezone,
+          strict: context.strict,
         });
 
         return filtered == null ? "" : escapeHtml(String(filtered));
@@ -79,78 +210,160 @@ function renderNode(node: DslNode, context: RenderContext): string {
 }
 
 function renderElement(node: ElementNode, context: RenderContext): string {
-  const pageExpr = node.attributes["data-page"];
-  if (pageExpr) {
-    return renderIteratedElement(node, pageExpr, context);
-  }
-
-  const repeatExpr = node.attributes["data-repeat"];
-  if (repeatExpr) {
-    return renderIteratedElement(node, repeatExpr, context);
+  const prepared = getPrepared(node, context);
+  if (prepared.iteration) {
+    return renderIteratedElement(node, prepared, prepared.iteration, context);
   }
 
-  return renderElementOnce(node, context);
+  return renderElementOnce(node, prepared, context);
 }
 
-function renderIteratedElement(node: ElementNode, expression: string, context: RenderContext): string {
-  const { path, alias } = parseIterationExpression(expression);
+function renderIteratedElement(
+  node: ElementNode,
+  prepared: PreparedElement,
+  iteration: PreparedIteration,
+  context: RenderContext
+): string {
+  const { path, alias, maxCount, fixedCount } = iteration;
   const list = getByPath(context.data, context.aliases, path);
 
   if (!Array.isArray(list)) {
     return "";
   }
 
-  const maxRowsAttr = node.attributes["data-max-rows"];
-  const fixedRowsAttr = node.attributes["data-fixed-rows"];
-  const maxCount = maxRowsAttr ? parseInt(maxRowsAttr, 10) : Infinity;
-  const fixedCount = fixedRowsAttr ? parseInt(fixedRowsAttr, 10) : 0;
-
   const effectiveLength = Math.min(list.length, maxCount);
   const totalRows = Math.max(effectiveLength, fixedCount);
 
   const rendered: string[] = [];
   for (let index = 0; index < totalRows; index++) {
     const aliases = cloneAliasMap(context.aliases);
+    Object.assign(aliases, iterationScopeVariables(index, totalRows, context.aliases));
     aliases[alias] = index < effectiveLength ? list[index] : {};
-    aliases["$index"] = index;
-    aliases["$page"] = {
-      index,
-      number: index + 1,
-      count: totalRows,
-    };
 
-    rendered.push(renderElementOnce(node, { ...context, aliases }));
+    rendered.push(renderElementOnce(node, prepared, { ...context, aliases }));
   }
 
   return rendered.join("");
 }
 
-function renderElementOnce(node: ElementNode, context: RenderContext): string {
-  const conditionPath = node.attributes["data-if"];
-  if (conditionPath) {
-    const condition = getByPath(context.data, context.aliases, conditionPath);
-    if (!condition) {
-      return "";
-    }
+function renderElementOnce(node: ElementNode, prepared: PreparedElement, context: RenderContext): string {
+  if (prepared.condition && !evaluateCondition(prepared.condition, context)) {
+    return "";
   }
 
   if (node.tagName === "meta") {
     return "";
   }
 
-  const attrs = buildRenderedAttributes(node, context);
+  const attrs = buildRenderedAttributes(prepared, context);
   const open = `<${node.tagName}${attrs}>`;
 
-  if (isVoidTag(node.tagName)) {
+  if (prepared.isVoid) {
     return open;
   }
 
-  const body = node.children.map((child) => renderNode(child, context)).join("");
+  const children = prepared.switchPath ? selectSwitchCase(node, prepared.switchPath, context) : node.children;
+
+  const body = renderChildren(children, context);
   return `${open}${body}</${node.tagName}>`;
 }
 
-function resolveAttrValue(value: string, context: RenderContext): string {
-  const segments = parseTextSegments(value);
+/**
+ * Keep the first data-case child whose label equals the switch value (or the
+ * data-default child when none matches) and drop every other case.
+ */
+function selectSwitchCase(node: ElementNode, path: string, context: RenderContext): DslNode[] {
+  const value = getByPath(context.data, context.aliases, path);
+  const label = value == null ? null : String(value);
+
+  const isCase = (child: DslNode): child is ElementNode =>
+    child.type === "element" &&
+    (child.attributes["data-case"] !== undefined || child.attributes["data-default"] !== undefined);
+
+  const selected =
+    node.children.find((child) => isCase(child) && child.attributes["data-case"]?.trim() === label) ??
+    node.children.find((child) => isCase(child) && child.attributes["data-default"] !== undefined);
+
+  return node.children.filter((child) => !isCase(child) || child === selected);
+}
+
+/**
+ * Render sibling nodes, resolving data-if / data-else-if / data-else chains:
+ * only the first branch whose condition holds is rendered.
+ */
+function renderChildren(children: DslNode[], context: RenderContext): string {
+  let branchTaken = false;
+
+  return children
+    .map((child) => {
+      if (child.type !== "element") {
+        return renderNode(child, context);
+      }
+
+      const prepared = getPrepared(child, context);
+      if (prepared.elseIfCondition || prepared.isElse) {
+        if (branchTaken) return "";
+        if (prepared.elseIfCondition && !evaluateCondition(prepared.elseIfCondition, context)) {
+          return "";
+        }
+        branchTaken = true;
+        return renderElement(child, context);
+      }
+
+      branchTaken =
+        prepared.condition && !prepared.iteration ? evaluateCondition(prepared.condition, context) : false;
+
+      return renderNode(child, context);
+    })
+    .join("");
+}
+
+function evaluateCondition(expr: ConditionExpression, context: RenderContext): boolean {
+  return Boolean(evaluateOperand(expr, context));
+}
+
+/** `<path>.length` on a string reads its length, as `minLength` and `maxLength` count it. */
+function stringLength(path: string, context: RenderContext): number | undefined {
+  if (!path.endsWith(".length")) return undefined;
+  const value = getByPath(context.data, context.aliases, path.slice(0, -".length".length));
+  return typeof value === "string" ? value.length : undefined;
+}
+
+function evaluateOperand(expr: ConditionExpression, context: RenderContext): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "path":
+      return getByPath(context.data, context.aliases, expr.path) ?? stringLength(expr.path, context) ?? null;
+    case "not":
+      return !evaluateOperand(expr.operand, context);
+    case "logical":
+      return expr.operator === "&&"
+        ? Boolean(evaluateOperand(expr.left, context)) && Boolean(evaluateOperand(expr.right, context))
+        : Boolean(evaluateOperand(expr.left, context)) || Boolean(evaluateOperand(expr.right, context));
+    case "compare": {
+      const left = evaluateOperand(expr.left, context);
+      const right = evaluateOperand(expr.right, context);
+      if (expr.operator === "==") return left === right;
+      if (expr.operator === "!=") return left !== right;
+
+      // Ordering is only defined between two numbers or two strings.
+      const comparable =
+        (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string");
+      if (!comparable) return false;
+
+      const a = left as number | string;
+      const b = right as number | string;
+      if (expr.operator === "<") return a < b;
+      if (expr.operator === "<=") return a <= b;
+      if (expr.operator === ">") return a > b;
+      return a >= b;
+    }
+  }
+}
+
+function resolveAttrValue(segments: TextSegment[], context: RenderContext): string {
   return segments
     .map((segment) => {
       if (segment.kind === "literal") {
@@ -160,14 +373,23 @@ function resolveAttrValue(value: string, context: RenderContext): string {
       const filtered = applyFilters(resolved, segment.filters, {
         dataType: segment.dataType,
         timezone: context.timezone,
+        strict: context.strict,
       });
       return filtered == null ? "" : String(filtered);
     })
     .join("");
 }
 
-function buildRenderedAttributes(node: ElementNode, context: RenderContext): string {
-  const entries: string[] = [];
+function prepareAttribute(name: string, value: string): string | PreparedAttribute {
+  const segments = parseTextSegments(value);
+  if (segments.every((segment) => segment.kind === "literal")) {
+    const literal = segments.map((segment) => (segment.kind === "literal" ? segment.value : "")).join("");
+    return `${name}="${escapeHtml(literal)}"`;
+  }
+  return { name, segments };
+}
+
+function buildStyleAttribute(node: ElementNode): string | PreparedAttribute | undefined {
   const styleParts: string[] = [];
 
   const originalStyle = node.attributes.style;
@@ -185,16 +407,22 @@ function buildRenderedAttributes(node: ElementNode, context: RenderContext): str
     styleParts.push(`page-break-after:${breakAfter}`);
   }
 
-  for (const [key, value] of Object.entries(node.attributes)) {
-    if (CONTROL_ATTRIBUTES.has(key) || key === "style") {
+  return styleParts.length > 0 ? prepareAttribute("style", styleParts.join("; ")) : undefined;
+}
+
+function buildRenderedAttributes(prepared: PreparedElement, context: RenderContext): string {
+  const entries: string[] = [];
+
+  const attributes = prepared.style ? [...prepared.attributes, prepared.style] : prepared.attributes;
+  for (const attribute of attributes) {
+    if (typeof attribute === "string") {
+      entries.push(attribute);
       continue;
     }
-    const resolved = resolveAttrValue(value, context);
-    entries.push(`${key}="${escapeHtml(resolved)}"`);
-  }
-
-  if (styleParts.length > 0) {
-    entries.push(`style="${escapeHtml(styleParts.join("; "))}"`);
+    const value = sanitizeAttributeValue(attribute.name, resolveAttrValue(attribute.segments, context), context.policy);
+    if (value !== undefined) {
+      entries.push(`${attribute.name}="${escapeHtml(value)}"`);
+    }
   }
 
   return entries.length > 0 ? ` ${entries.join(" ")}` : "";
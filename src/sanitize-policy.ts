@@ -0,0 +1,324 @@
+import { DEFAULT_FONT_FAMILIES, isValidCssValue } from "./css-grammar.js";
+import { RenderError } from "./errors.js";
+import { VOID_TAGS } from "./html-tokenizer.js";
+
+/**
+ * Adjustments to the built-in sanitization allow-lists. `allow*` entries are
+ * added to the defaults and `deny*` entries removed from them, so a policy can
+ * both widen (e.g. `caption`, `h1`) and narrow (e.g. no `img`) what survives
+ * parsing. Script-capable tags and `on*` / `href`-style attributes are never
+ * allowed.
+ */
+export interface SanitizePolicy {
+  allowTags?: string[];
+  denyTags?: string[];
+  /** Rendered attributes to allow, e.g. `title` or `headers`. */
+  allowAttributes?: string[];
+  /** Attributes to remove, including DSL control attributes such as `data-include`. */
+  denyAttributes?: string[];
+  allowCssProperties?: string[];
+  denyCssProperties?: string[];
+  /** CSS values matching any of these are removed, in addition to the defaults. */
+  bannedCssPatterns?: RegExp[];
+  /** Font families `font-family` may name besides the built-in safe list and generic families. */
+  allowFontFamilies?: string[];
+  denyFontFamilies?: string[];
+  /** MIME types to accept in `data:` URLs for `src`, in addition to PNG, JPEG, GIF and WebP. */
+  allowImageTypes?: string[];
+  denyImageTypes?: string[];
+  /**
+   * What the renderer does when an interpolated `src` or `style` resolves to a
+   * disallowed value: `"drop"` (default) removes the attribute or declaration,
+   * `"throw"` raises a RenderError.
+   */
+  unsafeValues?: "drop" | "throw";
+}
+
+/** A policy merged with the defaults, as used by the parser and renderer. */
+export interface ResolvedSanitizePolicy {
+  tags: ReadonlySet<string>;
+  /** Allowed tags without content or closing tag (`br`, `img`, ...). */
+  voidTags: ReadonlySet<string>;
+  /** Standard attributes copied to the rendered output. */
+  attributes: ReadonlySet<string>;
+  /** DSL `data-*` attributes the renderer consumes instead of printing. */
+  controlAttributes: ReadonlySet<string>;
+  cssProperties: ReadonlySet<string>;
+  bannedCssPatterns: readonly RegExp[];
+  /** Lower-cased font family names. */
+  fontFamilies: ReadonlySet<string>;
+  imageTypes: ReadonlySet<string>;
+  unsafeValues: "drop" | "throw";
+}
+
+/** One `property: value` entry of a style attribute; `start` and `end` index into the style string. */
+export interface CssDeclaration {
+  text: string;
+  property: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const DEFAULT_TAGS = new Set([
+  "html",
+  "head",
+  "body",
+  "meta",
+  "div",
+  "section",
+  "header",
+  "footer",
+  "main",
+  "p",
+  "span",
+  "strong",
+  "em",
+  "small",
+  "br",
+  "hr",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+  "colgroup",
+  "ul",
+  "ol",
+  "li",
+  "img",
+]);
+
+const DEFAULT_ATTRIBUTES = new Set([
+  "style",
+  "class",
+  "id",
+  "lang",
+  "dir",
+  "src",
+  "alt",
+  "colspan",
+  "rowspan",
+  "name",
+  "content",
+]);
+
+const CONTROL_ATTRIBUTES = new Set([
+  "data-page",
+  "data-repeat",
+  "data-if",
+  "data-else-if",
+  "data-else",
+  "data-switch",
+  "data-case",
+  "data-default",
+  "data-include",
+  "data-slot",
+  "data-fill",
+  "data-format",
+  "data-break-before",
+  "data-break-after",
+  "data-fixed-rows",
+  "data-max-rows",
+  "data-semantic-description",
+  "data-semantic-instruction",
+  "data-semantic-examples",
+]);
+
+const DEFAULT_CSS_PROPERTIES = new Set([
+  "display",
+  "width",
+  "height",
+  "margin",
+  "margin-top",
+  "margin-right",
+  "margin-bottom",
+  "margin-left",
+  "padding",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "box-sizing",
+  "border",
+  "border-collapse",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "line-height",
+  "text-align",
+  "white-space",
+  "letter-spacing",
+  "color",
+  "background-color",
+  "page-break-before",
+  "page-break-after",
+  "page-break-inside",
+  "size",
+]);
+
+// Applied to every value; properties with a grammar in css-grammar.ts are also checked against it.
+const DEFAULT_BANNED_CSS_PATTERNS = [
+  /\babsolute\b/i,
+  /\bfloat\b/i,
+  /\bflex\b/i,
+  /\bgrid\b/i,
+  /\banimation\b/i,
+  /\btransition\b/i,
+  /\btransform\b/i,
+  /\bfilter\b/i,
+  /calc\s*\(/i,
+  /var\s*\(/i,
+  /url\s*\(/i,
+  /expression\s*\(/i,
+  /\d(?:\.\d+)?\s*(em|rem|vh|vw|ch)(?![A-Za-z])/i,
+];
+
+const DEFAULT_FONTS = new Set(DEFAULT_FONT_FAMILIES.map((family) => family.toLowerCase()));
+
+const DEFAULT_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+// Tags and attributes that can run script or load other documents; a policy cannot allow them.
+const UNSAFE_TAGS = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "link", "base", "template",
+  "noscript", "svg", "math",
+]);
+const UNSAFE_ATTRIBUTE_RE = /^(?:on.*|href|xlink:href|action|formaction|srcdoc)$/;
+
+export const DEFAULT_SANITIZE_POLICY: ResolvedSanitizePolicy = buildPolicy({});
+
+/**
+ * Merge a policy with the built-in defaults. Without a policy the shared
+ * default is returned.
+ */
+export function resolveSanitizePolicy(policy?: SanitizePolicy): ResolvedSanitizePolicy {
+  return policy ? buildPolicy(policy) : DEFAULT_SANITIZE_POLICY;
+}
+
+function buildPolicy(policy: SanitizePolicy): ResolvedSanitizePolicy {
+  const tags = adjust(DEFAULT_TAGS, policy.allowTags, policy.denyTags, (tag) => !UNSAFE_TAGS.has(tag));
+
+  return {
+    tags,
+    // A policy's void tags are the allowed ones among the HTML void elements.
+    voidTags: new Set([...tags].filter((tag) => VOID_TAGS.has(tag))),
+    attributes: adjust(DEFAULT_ATTRIBUTES, policy.allowAttributes, policy.denyAttributes, (attr) =>
+      !UNSAFE_ATTRIBUTE_RE.test(attr)
+    ),
+    controlAttributes: adjust(CONTROL_ATTRIBUTES, [], policy.denyAttributes),
+    cssProperties: adjust(DEFAULT_CSS_PROPERTIES, policy.allowCssProperties, policy.denyCssProperties),
+    bannedCssPatterns: [...DEFAULT_BANNED_CSS_PATTERNS, ...(policy.bannedCssPatterns ?? [])],
+    fontFamilies: adjust(DEFAULT_FONTS, policy.allowFontFamilies, policy.denyFontFamilies),
+    imageTypes: adjust(DEFAULT_IMAGE_TYPES, policy.allowImageTypes, policy.denyImageTypes),
+    unsafeValues: policy.unsafeValues ?? "drop",
+  };
+}
+
+/** Whether `value` is a `data:` URL whose MIME type the policy allows. */
+export function isAllowedDataUrl(value: string, policy: ResolvedSanitizePolicy): boolean {
+  const match = value.trim().match(/^data:([^;,]*)[;,]/i);
+  return match !== null && policy.imageTypes.has(match[1].trim().toLowerCase());
+}
+
+/** Split a style attribute into declarations, skipping entries without a colon. */
+export function parseCssDeclarations(style: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  let entryStart = 0;
+
+  for (const entry of style.split(";")) {
+    const text = entry.trim();
+    const start = entryStart + entry.indexOf(text);
+    entryStart += entry.length + 1;
+
+    const colonIdx = text.indexOf(":");
+    if (colonIdx < 0) continue;
+
+    declarations.push({
+      text,
+      property: text.slice(0, colonIdx).trim().toLowerCase(),
+      value: text.slice(colonIdx + 1).trim(),
+      start,
+      end: start + text.length,
+    });
+  }
+
+  return declarations;
+}
+
+/**
+ * Why the policy rejects a declaration, or undefined when it may be kept.
+ * Values containing an interpolation skip the property's value grammar when
+ * `interpolated` is set; the renderer checks them once resolved.
+ */
+export function checkCssDeclaration(
+  declaration: CssDeclaration,
+  policy: ResolvedSanitizePolicy,
+  interpolated = false
+): { reason: "css-property" | "css-value"; why: string } | undefined {
+  const { property, value } = declaration;
+  if (!policy.cssProperties.has(property)) {
+    return { reason: "css-property", why: `property "${property}" is not allowed` };
+  }
+  if (policy.bannedCssPatterns.some((pattern) => pattern.test(value))) {
+    return { reason: "css-value", why: `value "${value}" is not allowed` };
+  }
+  if (!(interpolated && value.includes("{{")) && isValidCssValue(property, value, policy.fontFamilies) === false) {
+    return { reason: "css-value", why: `value "${value}" is not valid for "${property}"` };
+  }
+  return undefined;
+}
+
+/**
+ * Re-check an attribute value produced by interpolation: `src` must be an
+ * allowed data URL and `style` must pass the CSS sanitizer. Returns the value
+ * to render, or undefined to drop the attribute.
+ */
+export function sanitizeAttributeValue(
+  name: string,
+  value: string,
+  policy: ResolvedSanitizePolicy
+): string | undefined {
+  if (name === "src") {
+    return isAllowedDataUrl(value, policy)
+      ? value
+      : unsafeValue(policy, `src must be a data: URL with an allowed image type, got "${truncate(value)}"`, name);
+  }
+
+  if (name === "style") {
+    const kept: string[] = [];
+    for (const declaration of parseCssDeclarations(value)) {
+      const violation = checkCssDeclaration(declaration, policy);
+      if (violation) {
+        unsafeValue(policy, `style declaration "${declaration.text}" is not allowed: ${violation.why}`, name);
+      } else {
+        kept.push(`${declaration.property}:${declaration.value}`);
+      }
+    }
+    return kept.length > 0 ? kept.join("; ") : undefined;
+  }
+
+  return value;
+}
+
+function unsafeValue(policy: ResolvedSanitizePolicy, message: string, name: string): undefined {
+  if (policy.unsafeValues === "throw") {
+    throw new RenderError(`Unsafe ${name} value: ${message}`, { source: name });
+  }
+  return undefined;
+}
+
+function truncate(value: string): string {
+  return value.length > 40 ? `${value.slice(0, 40)}...` : value;
+}
+
+function adjust(
+  defaults: Set<string>,
+  allow: string[] = [],
+  deny: string[] = [],
+  isAllowable: (name: string) => boolean = () => true
+): Set<string> {
+  const denied = new Set(deny.map((name) => name.toLowerCase()));
+  const allowed = allow.map((name) => name.toLowerCase()).filter(isAllowable);
+  return new Set([...defaults, ...allowed].filter((name) => !denied.has(name)));
+}
@@ -0,0 +1,146 @@
+import { isPlainObject, stableSortObject } from "./dsl-utils.js";
+
+/**
+ * The JSON Schema flavor an extracted schema is written in:
+ *
+ * - `"2020-12"` (default): JSON Schema draft 2020-12, nullable fields as `type: [T, "null"]`.
+ * - `"draft-07"`: the same keywords under the draft-07 `$schema` URI.
+ * - `"openapi-3.0"`: an OpenAPI 3.0 Schema Object, with `nullable: true`, boolean `exclusiveMinimum` /
+ *   `exclusiveMaximum`, `example`, and `enum` for `const`.
+ * - `"llm-strict"`: for structured-output endpoints. Every object has `additionalProperties: false` and
+ *   lists all its properties in `required`; optional fields become nullable instead. Only `type`,
+ *   `properties`, `required`, `additionalProperties`, `items`, `enum`, `const` and `description` are kept.
+ */
+export type SchemaDialect = "2020-12" | "draft-07" | "openapi-3.0" | "llm-strict";
+
+type SchemaNode = Record<string, unknown>;
+
+const SCHEMA_URIS: Partial<Record<SchemaDialect, string>> = {
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+};
+
+const LLM_STRICT_KEYWORDS = new Set([
+  "type",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "const",
+  "description",
+]);
+
+/**
+ * Rewrite a draft 2020-12 schema produced by `extractSchemaFromAst` into
+ * `dialect`, with keys sorted as extracted. The input is not modified.
+ */
+export function convertSchemaDialect(schema: Record<string, unknown>, dialect: SchemaDialect): Record<string, unknown> {
+  const converted = convertNode(structuredClone(schema), dialect);
+  delete converted.$schema;
+
+  const uri = SCHEMA_URIS[dialect];
+  if (uri) converted.$schema = uri;
+  return stableSortObject(converted) as Record<string, unknown>;
+}
+
+function convertNode(node: SchemaNode, dialect: SchemaDialect): SchemaNode {
+  if (isPlainObject(node.properties)) {
+    for (const [key, value] of Object.entries(node.properties)) {
+      if (isPlainObject(value)) node.properties[key] = convertNode(value, dialect);
+    }
+  }
+  if (isPlainObject(node.items)) {
+    node.items = convertNode(node.items, dialect);
+  }
+
+  switch (dialect) {
+    case "openapi-3.0":
+      toOpenApi(node);
+      break;
+    case "llm-strict":
+      toLlmStrict(node);
+      break;
+    default:
+      break;
+  }
+  return node;
+}
+
+function toOpenApi(node: SchemaNode): void {
+  if (Array.isArray(node.type)) {
+    const types = node.type.filter((type) => type !== "null");
+    if (types.length < node.type.length) {
+      node.nullable = true;
+    }
+    node.type = types[0];
+  }
+
+  if ("const" in node) {
+    node.enum = [node.const];
+    delete node.const;
+  }
+  if (node.nullable && Array.isArray(node.enum) && !node.enum.includes(null)) {
+    node.enum = [...node.enum, null];
+  }
+
+  for (const [exclusive, inclusive] of [
+    ["exclusiveMinimum", "minimum"],
+    ["exclusiveMaximum", "maximum"],
+  ] as const) {
+    const bound = node[exclusive];
+    if (typeof bound !== "number") continue;
+
+    // OpenAPI 3.0 marks `minimum` / `maximum` as exclusive; keep whichever bound is tighter.
+    const current = node[inclusive];
+    const tighter =
+      typeof current !== "number" || (exclusive === "exclusiveMinimum" ? bound >= current : bound <= current);
+    if (tighter) {
+      node[inclusive] = bound;
+      node[exclusive] = true;
+    } else {
+      delete node[exclusive];
+    }
+  }
+
+  if (Array.isArray(node.examples)) {
+    if (node.examples.length > 0) node.example = node.examples[0];
+    delete node.examples;
+  }
+
+  if (node.contentEncoding === "base64") {
+    node.format = "byte";
+  }
+  delete node.contentEncoding;
+  delete node.contentMediaType;
+}
+
+function toLlmStrict(node: SchemaNode): void {
+  for (const key of Object.keys(node)) {
+    if (!LLM_STRICT_KEYWORDS.has(key)) delete node[key];
+  }
+
+  if (!isPlainObject(node.properties)) return;
+
+  const required = new Set(Array.isArray(node.required) ? node.required : []);
+  for (const [key, property] of Object.entries(node.properties)) {
+    if (isPlainObject(property) && (!required.has(key) || isNullable(property))) makeNullable(property);
+  }
+  node.required = Object.keys(node.properties);
+  node.additionalProperties = false;
+}
+
+function isNullable(node: SchemaNode): boolean {
+  return Array.isArray(node.type) && node.type.includes("null");
+}
+
+/** Accept null, including in `enum`, which strict endpoints check even for nullable types. */
+function makeNullable(node: SchemaNode): void {
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  if (!types.includes("null")) {
+    node.type = [...types, "null"];
+  }
+  if (Array.isArray(node.enum) && !node.enum.includes(null)) {
+    node.enum = [...node.enum, null];
+  }
+}
@@ -1,14 +1,34 @@
-import { DslError, SchemaExtractionError } from "./errors.js";
+import { parseCondition } from "./condition-parser.js";
+import { DslError, SchemaExtractionError, withLocation } from "./errors.js";
+import { parseTextSegments } from "./expression-parser.js";
+import { resolveSanitizePolicy } from "./sanitize-policy.js";
+import type { ResolvedSanitizePolicy, SanitizePolicy } from "./sanitize-policy.js";
+import { convertSchemaDialect } from "./schema-dialects.js";
+import type { SchemaDialect } from "./schema-dialects.js";
+import { isScopeVariablePath } from "./scope-variables.js";
 import {
   clonePathAliasMap,
   collectGlobalConfig,
   normalizePath,
   parseIterationExpression,
+  parseSwitchExpression,
   readTextContent,
   resolvePathWithAliases,
   stableSortObject,
 } from "./dsl-utils.js";
-import type { Constraint, DataType, DslNode, ElementNode, InterpolationSegment } from "./types.js";
+import type {
+  ConditionExpression,
+  Constraint,
+  DataType,
+  DslNode,
+  ElementNode,
+  InterpolationSegment,
+  SourceLocation,
+  TextSegment,
+} from "./types.js";
+
+// `data:image/png;base64,` written before an interpolated payload.
+const DATA_URL_PREFIX_RE = /^\s*data:([^;,]+);base64,$/i;
 
 interface SchemaObject {
   [key: string]: unknown;
@@ -16,7 +36,46 @@ interface SchemaObject {
 
 interface TraverseContext {
   aliases: Record<string, string>;
+  policy: ResolvedSanitizePolicy;
   inlineSemantic?: InlineSemantic;
+  switchLabels: Map<string, SwitchLabel[]>;
+  lengthReads: LengthRead[];
+  declarations: DeclarationMap;
+}
+
+/** A data-case label and the case element it came from. */
+interface SwitchLabel {
+  label: string;
+  location?: SourceLocation;
+}
+
+/** A data-if operand `<path>.length`, resolved once every declaration is known. */
+interface LengthRead {
+  path: string;
+  leafSchema: SchemaObject;
+  location?: SourceLocation;
+}
+
+/** A field declared by an interpolation, or an array declared by data-repeat / data-page. */
+type Declaration = (
+  | { kind: "field"; dataType: DataType; nullable: boolean; constraints: Constraint[] }
+  | { kind: "array" }
+) & { path: string; location?: SourceLocation };
+
+/** Declarations keyed by resolved path with `[]` removed: `items[].name` → `items.name`. */
+interface DeclarationMap {
+  entries: Map<string, Declaration>;
+  conflicts: "error" | "merge";
+  /** Receives conflicts instead of throwing them; the first declaration stays in effect. */
+  onConflict?: (conflict: DeclarationConflict) => void;
+}
+
+/** A conflicting declaration found by `collectDeclarationConflicts`. */
+export interface DeclarationConflict {
+  /** The conflicting path, resolved through aliases, with `[]` removed. */
+  path: string;
+  message: string;
+  location?: SourceLocation;
 }
 
 interface InlineSemantic {
@@ -25,12 +84,26 @@ interface InlineSemantic {
   examples?: string[];
 }
 
+type RequiredEntries = Map<SchemaObject, Set<string>>;
+
 interface MetaSemanticMap {
   [path: string]: InlineSemantic;
 }
 
 export interface ExtractSchemaOptions {
   examplesDelimiter?: string;
+  /**
+   * What to do when a path is declared more than once with a different
+   * nullability or constraints. `"error"` (default) throws; `"merge"` makes
+   * the field nullable and optional if any declaration is nullable, intersects
+   * ranges and lengths, and unions enums. Different types and scalar/object
+   * clashes always throw.
+   */
+  conflicts?: "error" | "merge";
+  /** The JSON Schema flavor to produce; draft 2020-12 by default. See `SchemaDialect`. */
+  dialect?: SchemaDialect;
+  /** The policy the template was parsed with; attributes that are not its control attributes are rendered values. */
+  policy?: SanitizePolicy;
 }
 
 export function extractSchemaFromAst(
@@ -38,26 +111,61 @@ export function extractSchemaFromAst(
   options: ExtractSchemaOptions = {}
 ): Record<string, unknown> {
   try {
-    const globalConfig = collectGlobalConfig(root);
-    const examplesDelimiter = options.examplesDelimiter ?? globalConfig.examplesDelimiter;
-
-    const metaSemantics = collectMetaSemantics(root, examplesDelimiter);
-
-    const schema: SchemaObject = {
-      $schema: "https://json-schema.org/draft/2020-12/schema",
-      type: "object",
-      properties: {},
-      required: [],
-    };
-
-    const context: TraverseContext = { aliases: {} };
-    walkNode(root, schema, context, metaSemantics, examplesDelimiter);
+    const sorted = stableSortObject(buildSchema(root, options)) as Record<string, unknown>;
+    return options.dialect ? convertSchemaDialect(sorted, options.dialect) : sorted;
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new SchemaExtractionError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
 
-    return stableSortObject(schema) as Record<string, unknown>;
+/**
+ * Run schema extraction, collecting every conflicting declaration that
+ * `extractSchemaFromAst` would throw for instead of stopping at the first.
+ * Other extraction errors are still thrown.
+ */
+export function collectDeclarationConflicts(
+  root: ElementNode,
+  options: ExtractSchemaOptions = {}
+): DeclarationConflict[] {
+  const conflicts: DeclarationConflict[] = [];
+  try {
+    buildSchema(root, options, (conflict) => conflicts.push(conflict));
   } catch (err) {
     if (err instanceof DslError) throw err;
     throw new SchemaExtractionError(err instanceof Error ? err.message : String(err), { cause: err });
   }
+  return conflicts;
+}
+
+function buildSchema(
+  root: ElementNode,
+  options: ExtractSchemaOptions,
+  onConflict?: (conflict: DeclarationConflict) => void
+): SchemaObject {
+  const globalConfig = collectGlobalConfig(root);
+  const examplesDelimiter = options.examplesDelimiter ?? globalConfig.examplesDelimiter;
+
+  const metaSemantics = collectMetaSemantics(root, examplesDelimiter);
+
+  const schema: SchemaObject = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {},
+    required: [],
+  };
+
+  const context: TraverseContext = {
+    aliases: {},
+    policy: resolveSanitizePolicy(options.policy),
+    switchLabels: new Map(),
+    lengthReads: [],
+    declarations: { entries: new Map(), conflicts: options.conflicts ?? "error", onConflict },
+  };
+  walkNode(root, schema, context, metaSemantics, examplesDelimiter);
+  applySwitchEnums(schema, context.switchLabels, context.declarations);
+  applyLengthReads(schema, context.lengthReads, context.declarations);
+  return schema;
 }
 
 function walkNode(
@@ -68,18 +176,7 @@ function walkNode(
   examplesDelimiter: string
 ): void {
   if (node.type === "text") {
-    for (const segment of node.segments) {
-      if (segment.kind !== "interpolation") continue;
-
-      const resolvedPath = resolvePathWithAliases(segment.path, context.aliases);
-      applyInterpolationSchema(schema, resolvedPath, segment);
-
-      const fieldSchema = getFieldSchema(schema, resolvedPath);
-      if (!fieldSchema) continue;
-
-      applySemantic(fieldSchema, metaSemantics[resolvedPath]);
-      applySemantic(fieldSchema, context.inlineSemantic);
-    }
+    applySegmentSchemas(node.segments, schema, context, metaSemantics);
     return;
   }
 
@@ -89,41 +186,479 @@ function walkNode(
 
   const nextContext: TraverseContext = {
     aliases: clonePathAliasMap(context.aliases),
+    policy: context.policy,
     inlineSemantic: buildInlineSemantic(node, context.inlineSemantic, examplesDelimiter),
+    switchLabels: context.switchLabels,
+    lengthReads: context.lengthReads,
+    declarations: context.declarations,
   };
 
   const pageExpr = node.attributes["data-page"];
   if (pageExpr) {
-    const parsed = parseIterationExpression(pageExpr);
+    const parsed = withLocation(node.location, undefined, () => parseIterationExpression(pageExpr));
     const path = resolvePathWithAliases(parsed.path, nextContext.aliases);
+    declare(context.declarations, { kind: "array", path, location: node.location });
     ensureArrayPath(schema, path, true);
     nextContext.aliases[parsed.alias] = `${path}[]`;
   }
 
   const repeatExpr = node.attributes["data-repeat"];
   if (repeatExpr) {
-    const parsed = parseIterationExpression(repeatExpr);
+    const parsed = withLocation(node.location, undefined, () => parseIterationExpression(repeatExpr));
     const path = resolvePathWithAliases(parsed.path, nextContext.aliases);
+    declare(context.declarations, { kind: "array", path, location: node.location });
     ensureArrayPath(schema, path, true);
     nextContext.aliases[parsed.alias] = `${path}[]`;
   }
 
-  const condition = node.attributes["data-if"];
+  const condition = node.attributes["data-if"] || node.attributes["data-else-if"];
   if (condition) {
-    const conditionPath = resolvePathWithAliases(condition, nextContext.aliases);
-    applyInterpolationSchema(schema, conditionPath, {
-      kind: "interpolation",
-      path: conditionPath,
-      dataType: "boolean",
-      nullable: false,
-      constraints: [],
-      filters: [],
-    });
+    applyConditionSchema(schema, parseCondition(condition), nextContext, node.location);
+  }
+
+  applyAttributeSchemas(node, schema, nextContext, metaSemantics);
+
+  const switchExpr = node.attributes["data-switch"];
+  if (switchExpr) {
+    walkSwitch(node, switchExpr, schema, nextContext, metaSemantics, examplesDelimiter);
+    return;
+  }
+
+  walkChildren(node.children, schema, nextContext, metaSemantics, examplesDelimiter);
+}
+
+function applySegmentSchemas(
+  segments: TextSegment[],
+  schema: SchemaObject,
+  context: TraverseContext,
+  metaSemantics: MetaSemanticMap
+): SchemaObject[] {
+  const fieldSchemas: SchemaObject[] = [];
+  for (const segment of segments) {
+    if (segment.kind !== "interpolation" || isScopeVariablePath(segment.path)) continue;
+
+    const resolvedPath = resolvePathWithAliases(segment.path, context.aliases);
+    applyInterpolationSchema(schema, resolvedPath, segment, context.declarations);
+
+    const fieldSchema = getFieldSchema(schema, resolvedPath);
+    if (!fieldSchema) continue;
+
+    applySemantic(fieldSchema, metaSemantics[resolvedPath]);
+    applySemantic(fieldSchema, context.inlineSemantic);
+    fieldSchemas.push(fieldSchema);
+  }
+  return fieldSchemas;
+}
+
+/**
+ * Extract the interpolations in rendered attribute values, as for text. They
+ * are located at their element. An `img` `src` that interpolates a whole
+ * value is marked as a URI; one that interpolates the payload of a base64
+ * data URL gets its `contentEncoding` and `contentMediaType`.
+ */
+function applyAttributeSchemas(
+  node: ElementNode,
+  schema: SchemaObject,
+  context: TraverseContext,
+  metaSemantics: MetaSemanticMap
+): void {
+  for (const [name, value] of Object.entries(node.attributes)) {
+    if (context.policy.controlAttributes.has(name) || !value.includes("{{")) continue;
+
+    const segments = withLocation(node.location, undefined, () => parseTextSegments(value)).map((segment) =>
+      segment.kind === "interpolation" ? { ...segment, location: node.location } : segment
+    );
+    const fieldSchemas = applySegmentSchemas(segments, schema, context, metaSemantics);
+    if (node.tagName === "img" && name === "src") applyImageSourceHints(segments, fieldSchemas, context.policy);
+  }
+}
+
+function applyImageSourceHints(
+  segments: TextSegment[],
+  fieldSchemas: SchemaObject[],
+  policy: ResolvedSanitizePolicy
+): void {
+  const last = segments[segments.length - 1];
+  if (fieldSchemas.length !== 1 || last.kind !== "interpolation" || last.dataType !== "string") return;
+
+  // The renderer drops any src that is not a data URL of an allowed image type.
+  if (segments.length === 1) {
+    const types = [...policy.imageTypes].sort().map((type) => type.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&"));
+    fieldSchemas[0].pattern ??= `^\\s*data:\\s*(?:${types.join("|")})\\s*[;,]`;
+    return;
+  }
+  const prefix = segments[0];
+  const match = segments.length === 2 && prefix.kind === "literal" ? prefix.value.match(DATA_URL_PREFIX_RE) : null;
+  if (match) {
+    fieldSchemas[0].contentEncoding = "base64";
+    fieldSchemas[0].contentMediaType = match[1].trim().toLowerCase();
+  }
+}
+
+/**
+ * Walk a data-switch element. The switch path becomes a required string field
+ * (unless declared elsewhere) whose enum is completed with the case labels
+ * once the whole tree has been walked; the cases are exhaustive branches.
+ */
+function walkSwitch(
+  node: ElementNode,
+  expression: string,
+  schema: SchemaObject,
+  context: TraverseContext,
+  metaSemantics: MetaSemanticMap,
+  examplesDelimiter: string
+): void {
+  const path = resolvePathWithAliases(parseSwitchExpression(expression), context.aliases);
+  if (!isScopeVariablePath(path) && !getFieldSchema(schema, path)) {
+    ensurePathNode(schema, normalizePath(path), { type: "string" }, true);
   }
 
+  const cases: ElementNode[] = [];
+  const others: DslNode[] = [];
   for (const child of node.children) {
-    walkNode(child, schema, nextContext, metaSemantics, examplesDelimiter);
+    if (
+      child.type === "element" &&
+      (child.attributes["data-case"] !== undefined || child.attributes["data-default"] !== undefined)
+    ) {
+      cases.push(child);
+    } else {
+      others.push(child);
+    }
   }
+
+  const labels = context.switchLabels.get(path) ?? [];
+  for (const branch of cases) {
+    const label = branch.attributes["data-case"]?.trim();
+    if (label !== undefined && !labels.some((entry) => entry.label === label)) {
+      labels.push({ label, location: branch.location });
+    }
+  }
+  context.switchLabels.set(path, labels);
+
+  walkChildren(others, schema, context, metaSemantics, examplesDelimiter);
+  walkBranches(cases, true, schema, context, metaSemantics, examplesDelimiter);
+}
+
+/**
+ * Add data-switch case labels to the enum of each switch field, converting
+ * them to the field's declared type. A label that is not a value of that type
+ * throws. When the field declares an enum or a fixed value, a label outside
+ * it is a conflict; with `conflicts: "merge"` labels are unioned into the enum.
+ */
+function applySwitchEnums(
+  schema: SchemaObject,
+  switchLabels: Map<string, SwitchLabel[]>,
+  declarations: DeclarationMap
+): void {
+  for (const [path, labels] of switchLabels) {
+    const fieldSchema = getFieldSchema(schema, path);
+    if (!fieldSchema) continue;
+
+    const types = Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type];
+    const key = normalizePath(path).map(stripArrayMarker).join(".");
+    const declared = Array.isArray(fieldSchema.enum) ? (fieldSchema.enum as unknown[]) : undefined;
+    const values: unknown[] = [];
+
+    for (const entry of labels) {
+      const value = convertSwitchLabel(key, entry, types);
+      const fixed = "const" in fieldSchema && fieldSchema.const !== value;
+      if (fixed || (declared && !declared.includes(value) && declarations.conflicts === "error")) {
+        const constraint = fixed ? `fixed:${fieldSchema.const}` : `enum:${declared!.join(",")}`;
+        reportConflict(
+          declarations,
+          key,
+          `data-case "${entry.label}" is outside ${constraint} declared`,
+          entry,
+          declarations.entries.get(key) ?? {}
+        );
+        continue;
+      }
+      values.push(value);
+    }
+
+    if ("const" in fieldSchema) continue;
+    const existing = declared ?? [];
+    fieldSchema.enum = [...existing, ...values.filter((value) => !existing.includes(value))];
+  }
+}
+
+function convertSwitchLabel(path: string, entry: SwitchLabel, types: unknown[]): string | number | boolean {
+  const { label } = entry;
+  let type = "string";
+  let value: string | number | boolean | undefined = label;
+
+  if (types.includes("integer")) {
+    type = "integer";
+    value = /^[+-]?\d+$/.test(label) ? Number(label) : undefined;
+  } else if (types.includes("number")) {
+    type = "number";
+    value = label !== "" && Number.isFinite(Number(label)) ? Number(label) : undefined;
+  } else if (types.includes("boolean")) {
+    type = "boolean";
+    value = label === "true" || label === "false" ? label === "true" : undefined;
+  }
+
+  if (value !== undefined) return value;
+  return withLocation(entry.location, undefined, () => {
+    throw new SchemaExtractionError(`data-case label "${label}" is not a valid ${type} for "${path}"`, { path });
+  });
+}
+
+/**
+ * Walk sibling nodes, treating each data-if / data-else-if / data-else chain
+ * as a set of branches that is exhaustive when it ends in data-else.
+ */
+function walkChildren(
+  children: DslNode[],
+  schema: SchemaObject,
+  context: TraverseContext,
+  metaSemantics: MetaSemanticMap,
+  examplesDelimiter: string
+): void {
+  for (let i = 0; i < children.length; i++) {
+    const chain = collectBranchChain(children, i);
+    if (chain.length < 2) {
+      walkNode(children[i], schema, context, metaSemantics, examplesDelimiter);
+      continue;
+    }
+
+    // Branch conditions are evaluated regardless of which branch renders.
+    for (const branch of chain) {
+      const condition = branch.attributes["data-if"] || branch.attributes["data-else-if"];
+      if (condition) {
+        applyConditionSchema(schema, parseCondition(condition), context, branch.location);
+      }
+    }
+
+    const exhaustive = chain[chain.length - 1].attributes["data-else"] !== undefined;
+    walkBranches(chain, exhaustive, schema, context, metaSemantics, examplesDelimiter);
+    i += chain.length - 1;
+  }
+}
+
+/**
+ * Walk mutually exclusive branches. A field added as required inside a
+ * branch stays required only when the branches are exhaustive and every
+ * branch requires it.
+ */
+function walkBranches(
+  branches: ElementNode[],
+  exhaustive: boolean,
+  schema: SchemaObject,
+  context: TraverseContext,
+  metaSemantics: MetaSemanticMap,
+  examplesDelimiter: string
+): void {
+  // Each branch starts from the same required state; keys a branch adds are
+  // recorded and reverted, then restored only if every branch needs them.
+  const before = collectRequiredEntries(schema);
+  const additions = branches.map((branch) => {
+    walkNode(branch, schema, context, metaSemantics, examplesDelimiter);
+    const added = diffRequiredEntries(collectRequiredEntries(schema), before);
+    for (const [node, keys] of added) {
+      for (const key of keys) removeRequired(node, key);
+    }
+    return added;
+  });
+
+  // Keys on nodes that existed before the branches need every branch of an
+  // exhaustive set; keys on nodes created inside the branches only need
+  // every branch that populates that node.
+  const candidates = new Map<SchemaObject, Set<string>>();
+  for (const added of additions) {
+    for (const [node, keys] of added) {
+      const merged = candidates.get(node) ?? new Set<string>();
+      keys.forEach((key) => merged.add(key));
+      candidates.set(node, merged);
+    }
+  }
+
+  for (const [node, keys] of candidates) {
+    const existed = before.has(node);
+    if (existed && !exhaustive) continue;
+
+    const populating = existed ? additions : additions.filter((added) => added.has(node));
+    for (const key of keys) {
+      if (populating.every((added) => added.get(node)?.has(key))) {
+        pushRequired(node, key);
+      }
+    }
+  }
+}
+
+function collectBranchChain(children: DslNode[], start: number): ElementNode[] {
+  const head = children[start];
+  if (head.type !== "element" || head.attributes["data-if"] === undefined) {
+    return [];
+  }
+
+  const chain: ElementNode[] = [head];
+  for (let i = start + 1; i < children.length; i++) {
+    const next = children[i];
+    if (next.type !== "element") break;
+    if (next.attributes["data-else-if"] !== undefined) {
+      chain.push(next);
+      continue;
+    }
+    if (next.attributes["data-else"] !== undefined) {
+      chain.push(next);
+    }
+    break;
+  }
+  return chain;
+}
+
+/**
+ * Index every `required` list in the schema by its owning node.
+ */
+function collectRequiredEntries(schema: SchemaObject): RequiredEntries {
+  const entries: RequiredEntries = new Map();
+
+  const visit = (node: SchemaObject): void => {
+    if (Array.isArray(node.required)) {
+      entries.set(node, new Set(node.required as string[]));
+    }
+
+    const properties = node.properties;
+    if (properties && typeof properties === "object") {
+      for (const child of Object.values(properties as Record<string, SchemaObject>)) visit(child);
+    }
+    if (node.items && typeof node.items === "object") {
+      visit(node.items as SchemaObject);
+    }
+  };
+
+  visit(schema);
+  return entries;
+}
+
+function diffRequiredEntries(after: RequiredEntries, before: RequiredEntries): RequiredEntries {
+  const diff: RequiredEntries = new Map();
+  for (const [node, keys] of after) {
+    const previous = before.get(node);
+    const added = [...keys].filter((key) => !previous?.has(key));
+    if (added.length > 0) diff.set(node, new Set(added));
+  }
+  return diff;
+}
+
+function removeRequired(node: SchemaObject, key: string): void {
+  if (!Array.isArray(node.required)) return;
+  node.required = (node.required as string[]).filter((entry) => entry !== key);
+}
+
+/**
+ * Infer field schemas from the operands of a data-if expression.
+ *
+ * A bare path used as a truth value is a boolean, a path compared with a
+ * literal takes the literal's type, and `<path>.length` marks `<path>` as an
+ * array (see `applyLengthReads`). Paths compared with null or with other paths
+ * carry no type information and are left out. Explicit interpolation
+ * declarations always take precedence over inferred types. Scope variables
+ * such as `$index` are not data and are skipped.
+ */
+function applyConditionSchema(
+  schema: SchemaObject,
+  expr: ConditionExpression,
+  context: TraverseContext,
+  location: SourceLocation | undefined
+): void {
+  switch (expr.kind) {
+    case "path":
+      applyInferredSchema(schema, expr.path, { type: "boolean" }, context, location);
+      return;
+    case "literal":
+      return;
+    case "not":
+      applyConditionSchema(schema, expr.operand, context, location);
+      return;
+    case "logical":
+      applyConditionSchema(schema, expr.left, context, location);
+      applyConditionSchema(schema, expr.right, context, location);
+      return;
+    case "compare":
+      applyComparisonOperand(schema, expr.left, expr.right, context, location);
+      applyComparisonOperand(schema, expr.right, expr.left, context, location);
+      return;
+  }
+}
+
+function applyComparisonOperand(
+  schema: SchemaObject,
+  operand: ConditionExpression,
+  other: ConditionExpression,
+  context: TraverseContext,
+  location: SourceLocation | undefined
+): void {
+  if (operand.kind !== "path") {
+    applyConditionSchema(schema, operand, context, location);
+    return;
+  }
+
+  if (other.kind === "literal" && other.value !== null) {
+    applyInferredSchema(schema, operand.path, { type: typeof other.value }, context, location);
+  } else if (isLengthPath(operand.path)) {
+    applyInferredSchema(schema, operand.path, { type: "number" }, context, location);
+  }
+}
+
+function applyInferredSchema(
+  schema: SchemaObject,
+  path: string,
+  leafSchema: SchemaObject,
+  context: TraverseContext,
+  location: SourceLocation | undefined
+): void {
+  if (isScopeVariablePath(path)) return;
+
+  if (isLengthPath(path)) {
+    const arrayPath = resolvePathWithAliases(path.slice(0, -".length".length), context.aliases);
+    if (!getFieldSchema(schema, arrayPath)) {
+      ensurePathNode(schema, normalizePath(arrayPath), { type: "array" }, true);
+    }
+    context.lengthReads.push({ path: arrayPath, leafSchema, location });
+    return;
+  }
+
+  const resolvedPath = resolvePathWithAliases(path, context.aliases);
+  if (!getFieldSchema(schema, resolvedPath)) {
+    ensurePathNode(schema, normalizePath(resolvedPath), leafSchema, true);
+  }
+}
+
+/**
+ * Revisit `<path>.length` reads once the whole template is walked. When
+ * `<path>` is used as an object elsewhere, `length` is an ordinary field of it
+ * and gets the inferred type. A string-typed declaration keeps its schema, as
+ * the renderer reads the string's length; any other scalar is a conflict.
+ * Otherwise `<path>` stays the array marked while walking.
+ */
+function applyLengthReads(schema: SchemaObject, reads: LengthRead[], declarations: DeclarationMap): void {
+  for (const read of reads) {
+    const parts = normalizePath(read.path);
+    const key = parts.map(stripArrayMarker).join(".");
+
+    const declaration = declarations.entries.get(key);
+    if (declaration?.kind === "field" && !read.path.endsWith("[]")) {
+      if (mapTypeToSchema(declaration.dataType, false).type === "string") continue;
+      const detail = `"${key}.length" reads an array length here but it is declared as`;
+      reportConflict(declarations, key, `${detail} ${describeDeclaration(declaration)}`, read, declaration);
+      continue;
+    }
+
+    const usedAsObject = [...declarations.entries.values()].some((existing) => {
+      const other = normalizePath(existing.path);
+      return other.length > parts.length && other.slice(0, parts.length).join(".") === parts.join(".");
+    });
+    const lengthPath = `${read.path}.length`;
+    if (usedAsObject && !getFieldSchema(schema, lengthPath)) {
+      ensurePathNode(schema, normalizePath(lengthPath), read.leafSchema, true);
+    }
+  }
+}
+
+function isLengthPath(path: string): boolean {
+  return path.endsWith(".length");
 }
 
 function collectMetaSemantics(root: ElementNode, delimiter: string): MetaSemanticMap {
@@ -201,10 +736,168 @@ function ensureArrayPath(schema: SchemaObject, path: string, required: boolean):
 function applyInterpolationSchema(
   schema: SchemaObject,
   path: string,
-  interpolation: InterpolationSegment
+  interpolation: InterpolationSegment,
+  declarations: DeclarationMap
+): void {
+  const { dataType, nullable, constraints, location } = interpolation;
+  const declared = declare(declarations, { kind: "field", path, dataType, nullable, constraints, location });
+  if (declared.kind !== "field") return;
+
+  const fieldSchema = buildFieldSchema(declared.dataType, declared.nullable, declared.constraints);
+  const parts = normalizePath(path);
+  ensurePathNode(schema, parts, fieldSchema, !declared.nullable);
+
+  // A merged nullable field is optional, like any `?` field, even if an earlier declaration required it.
+  if (declared.nullable) {
+    const owner = parts.length === 1 ? schema : getFieldSchema(schema, parts.slice(0, -1).join("."));
+    const ownerObject = owner && parts[parts.length - 2]?.endsWith("[]") ? (owner.items as SchemaObject) : owner;
+    if (ownerObject) removeRequired(ownerObject, stripArrayMarker(parts[parts.length - 1]));
+  }
+}
+
+/**
+ * Record a declaration, checking it against earlier ones: a field must keep
+ * its type (and, unless merging, its nullability and constraints), and a path
+ * declared as a field or array cannot also be used as an object. Returns the
+ * declaration now in effect.
+ */
+function declare(declarations: DeclarationMap, declaration: Declaration): Declaration {
+  const { entries } = declarations;
+  const parts = normalizePath(declaration.path);
+  const names = parts.map(stripArrayMarker);
+  const key = names.join(".");
+
+  // Parents must be objects, or arrays entered through an alias (`items[]`).
+  for (let i = 1; i < parts.length; i++) {
+    const name = names.slice(0, i).join(".");
+    const parent = entries.get(name);
+    if (parent && !(parent.kind === "array" && parts[i - 1].endsWith("[]"))) {
+      const detail = `it is used as an object here but declared as ${describeDeclaration(parent)}`;
+      reportConflict(declarations, name, detail, declaration, parent);
+      return declaration;
+    }
+  }
+  for (const existing of entries.values()) {
+    const other = normalizePath(existing.path);
+    if (other.length <= parts.length || other.slice(0, parts.length).map(stripArrayMarker).join(".") !== key) {
+      continue;
+    }
+    if (declaration.kind !== "array" || !other[parts.length - 1].endsWith("[]")) {
+      const detail = `it is declared as ${describeDeclaration(declaration)} here but used as an object`;
+      reportConflict(declarations, key, detail, declaration, existing);
+      return declaration;
+    }
+  }
+
+  const existing = entries.get(key);
+  if (!existing) {
+    entries.set(key, declaration);
+    return declaration;
+  }
+  if (existing.kind === "array" && declaration.kind === "array") return existing;
+
+  const detail = `it is declared as ${describeDeclaration(declaration)} here but as ${describeDeclaration(existing)}`;
+  if (existing.kind !== "field" || declaration.kind !== "field" || existing.dataType !== declaration.dataType) {
+    reportConflict(declarations, key, detail, declaration, existing);
+    return existing;
+  }
+
+  if (sameDeclaration(existing, declaration)) return existing;
+  if (declarations.conflicts === "error") {
+    reportConflict(declarations, key, detail, declaration, existing);
+    return existing;
+  }
+
+  const merged: Declaration = {
+    ...existing,
+    nullable: existing.nullable || declaration.nullable,
+    constraints: withLocation(declaration.location, undefined, () =>
+      mergeConstraints(key, existing.constraints, declaration.constraints)
+    ),
+  };
+  entries.set(key, merged);
+  return merged;
+}
+
+function stripArrayMarker(part: string): string {
+  return part.endsWith("[]") ? part.slice(0, -2) : part;
+}
+
+/** Throw a conflict, or hand it to `declarations.onConflict` when conflicts are being collected. */
+function reportConflict(
+  declarations: DeclarationMap,
+  path: string,
+  detail: string,
+  declaration: { location?: SourceLocation },
+  existing: { location?: SourceLocation }
 ): void {
-  const fieldSchema = buildFieldSchema(interpolation.dataType, interpolation.nullable, interpolation.constraints);
-  ensurePathNode(schema, normalizePath(path), fieldSchema, !interpolation.nullable);
+  const where = existing.location
+    ? ` at line ${existing.location.start.line}, column ${existing.location.start.column}`
+    : " elsewhere";
+  const message = `Conflicting declarations of "${path}": ${detail}${where}`;
+
+  if (declarations.onConflict) {
+    declarations.onConflict({ path, message, ...(declaration.location ? { location: declaration.location } : {}) });
+    return;
+  }
+  withLocation(declaration.location, undefined, () => {
+    throw new SchemaExtractionError(message, { path });
+  });
+}
+
+function describeDeclaration(declaration: Declaration): string {
+  if (declaration.kind === "array") return "an array";
+  const type = `${declaration.dataType}${declaration.nullable ? "?" : ""}`;
+  const constraints = declaration.constraints.map(describeConstraint);
+  return constraints.length > 0 ? `${type} (${constraints.join(", ")})` : type;
+}
+
+function describeConstraint(constraint: Constraint): string {
+  const value = constraint.kind === "enum" ? constraint.values.join(",") : constraint.value;
+  return `${constraint.kind}:${value}`;
+}
+
+type FieldDeclaration = Extract<Declaration, { kind: "field" }>;
+
+function sameDeclaration(a: FieldDeclaration, b: FieldDeclaration): boolean {
+  const key = (d: FieldDeclaration): string =>
+    JSON.stringify(stableSortObject(buildFieldSchema(d.dataType, d.nullable, d.constraints)));
+  return key(a) === key(b);
+}
+
+/**
+ * Combine the constraints of two declarations of one field: ranges and
+ * lengths are intersected, enums are unioned, and a constraint only one side
+ * has is kept. Differing patterns, steps or fixed values cannot be combined.
+ */
+function mergeConstraints(path: string, left: Constraint[], right: Constraint[]): Constraint[] {
+  const merged = new Map<Constraint["kind"], Constraint>();
+  for (const constraint of [...left, ...right]) {
+    const existing = merged.get(constraint.kind);
+    merged.set(constraint.kind, existing ? mergeConstraint(path, existing, constraint) : constraint);
+  }
+  return [...merged.values()];
+}
+
+/** Merge two constraints of the same kind. */
+function mergeConstraint(path: string, a: Constraint, b: Constraint): Constraint {
+  if (a.kind === "enum") {
+    const values = (b as typeof a).values.filter((value) => !a.values.includes(value));
+    return { kind: "enum", values: [...a.values, ...values] };
+  }
+
+  if (a.kind === "min" || a.kind === "exMin" || a.kind === "minLength") {
+    return (b as typeof a).value > a.value ? b : a;
+  }
+  if (a.kind === "max" || a.kind === "exMax" || a.kind === "maxLength") {
+    return (b as typeof a).value < a.value ? b : a;
+  }
+  if ((b as typeof a).value === a.value) return a;
+
+  throw new SchemaExtractionError(
+    `Conflicting declarations of "${path}": ${describeConstraint(a)} and ${describeConstraint(b)} cannot be merged`,
+    { path }
+  );
 }
 
 function buildFieldSchema(
@@ -314,6 +1007,8 @@ function ensurePathNode(
         };
       }
 
+      // A scalar type on a parent was only inferred from data-if; declarations are checked by declare().
+      arrNode.type = "array";
       properties[key] = arrNode;
       pushRequired(current, key);
       current = arrNode.items as SchemaObject;
@@ -324,6 +1019,7 @@ function ensurePathNode(
         required: [],
       };
 
+      objNode.type = "object";
       properties[key] = objNode;
       pushRequired(current, key);
       current = objNode;
@@ -0,0 +1,179 @@
+import { parseCondition } from "./condition-parser.js";
+import { DslSyntaxError, withLocation } from "./errors.js";
+import { parseTextSegments } from "./expression-parser.js";
+import { parseIterationExpression, parseSwitchExpression } from "./dsl-utils.js";
+import { DEFAULT_SANITIZE_POLICY } from "./sanitize-policy.js";
+import type { ResolvedSanitizePolicy } from "./sanitize-policy.js";
+import type { ConditionExpression, DataType, ElementNode, SourceLocation, TextSegment } from "./types.js";
+
+/**
+ * Names every data-repeat / data-page iteration defines for its element and
+ * descendants. They are not data: templates cannot use them as aliases, and
+ * the schema extractor leaves them out.
+ */
+export const SCOPE_VARIABLE_NAMES: ReadonlySet<string> = new Set(["$index", "$first", "$last", "$page", "$parent"]);
+
+/** The readable paths of one iteration's scope variables and their types. `$parent` repeats them. */
+export const SCOPE_VARIABLE_TYPES: Readonly<Record<string, "integer" | "boolean">> = {
+  $index: "integer",
+  $first: "boolean",
+  $last: "boolean",
+  "$page.index": "integer",
+  "$page.number": "integer",
+  "$page.count": "integer",
+};
+
+const COMPATIBLE_TYPES: Record<"integer" | "boolean", DataType[]> = {
+  integer: ["integer", "number"],
+  boolean: ["boolean"],
+};
+
+/** True when `path` reads a scope variable rather than template data. */
+export function isScopeVariablePath(path: string): boolean {
+  return SCOPE_VARIABLE_NAMES.has(path.split(".", 1)[0]);
+}
+
+/**
+ * The scope variables of row `index` out of `count` rendered rows (padding
+ * rows included). `outer` is the enclosing scope; when it belongs to an
+ * iteration, its variables become `$parent`.
+ */
+export function iterationScopeVariables(
+  index: number,
+  count: number,
+  outer: Record<string, unknown>
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = {
+    $index: index,
+    $first: index === 0,
+    $last: index === count - 1,
+    $page: { index, number: index + 1, count },
+  };
+  if (Object.prototype.hasOwnProperty.call(outer, "$index")) {
+    variables.$parent = {
+      $index: outer.$index,
+      $first: outer.$first,
+      $last: outer.$last,
+      $page: outer.$page,
+      $parent: outer.$parent,
+    };
+  }
+  return variables;
+}
+
+/**
+ * Check every use of a scope variable in an assembled template: it must be
+ * inside enough iterations, name a known variable and, in an interpolation,
+ * declare a compatible type. Reserved names cannot be iteration aliases.
+ */
+export function checkScopeVariables(
+  root: ElementNode,
+  policy: ResolvedSanitizePolicy = DEFAULT_SANITIZE_POLICY
+): void {
+  checkElement(root, 0, policy);
+}
+
+function checkElement(node: ElementNode, depth: number, policy: ResolvedSanitizePolicy): void {
+  withLocation(node.location, undefined, () => {
+    for (const attribute of ["data-page", "data-repeat"]) {
+      const expr = node.attributes[attribute];
+      if (!expr) continue;
+
+      const { path, alias } = parseIterationExpression(expr);
+      if (isScopeVariablePath(path)) {
+        throw new DslSyntaxError(`${attribute} cannot iterate over the scope variable "${path}"`, { source: expr });
+      }
+      if (SCOPE_VARIABLE_NAMES.has(alias)) {
+        throw new DslSyntaxError(`"${alias}" is a reserved scope variable and cannot be used as an alias`, {
+          source: expr,
+        });
+      }
+      depth++;
+    }
+
+    for (const attribute of ["data-if", "data-else-if"]) {
+      const expr = node.attributes[attribute];
+      if (expr) checkCondition(parseCondition(expr), depth);
+    }
+
+    const switchExpr = node.attributes["data-switch"];
+    if (switchExpr) resolveScopeVariable(parseSwitchExpression(switchExpr), depth);
+
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (policy.controlAttributes.has(name) || !value.includes("{{")) continue;
+      // Attribute interpolations are located at their element, as in schema extraction.
+      const segments = parseTextSegments(value).map((segment) => ({ ...segment, location: undefined }));
+      checkSegments(segments, depth);
+    }
+  });
+
+  for (const child of node.children) {
+    if (child.type === "element") {
+      checkElement(child, depth, policy);
+    } else {
+      checkSegments(child.segments, depth, child.location);
+    }
+  }
+}
+
+function checkCondition(expr: ConditionExpression, depth: number): void {
+  switch (expr.kind) {
+    case "path":
+      resolveScopeVariable(expr.path, depth);
+      return;
+    case "literal":
+      return;
+    case "not":
+      checkCondition(expr.operand, depth);
+      return;
+    case "logical":
+    case "compare":
+      checkCondition(expr.left, depth);
+      checkCondition(expr.right, depth);
+      return;
+  }
+}
+
+function checkSegments(segments: TextSegment[], depth: number, fallback?: SourceLocation): void {
+  for (const segment of segments) {
+    if (segment.kind !== "interpolation") continue;
+
+    withLocation(segment.location ?? fallback, undefined, () => {
+      const type = resolveScopeVariable(segment.path, depth);
+      if (type && !COMPATIBLE_TYPES[type].includes(segment.dataType)) {
+        const message = `"${segment.path}" is ${article(type)} and cannot be declared as ${segment.dataType}`;
+        throw new DslSyntaxError(message, { source: segment.path });
+      }
+    });
+  }
+}
+
+/** The type of a scope variable path, or undefined when `path` reads template data. */
+function resolveScopeVariable(path: string, depth: number): "integer" | "boolean" | undefined {
+  if (!isScopeVariablePath(path)) return undefined;
+
+  let rest = path;
+  let levels = 0;
+  while (rest.startsWith("$parent.")) {
+    rest = rest.slice("$parent.".length);
+    levels++;
+  }
+
+  const type = SCOPE_VARIABLE_TYPES[rest];
+  if (!type) {
+    throw new DslSyntaxError(`Unknown scope variable "${path}"`, { source: path });
+  }
+  if (depth === 0) {
+    throw new DslSyntaxError(`"${path}" is only defined inside data-repeat or data-page`, { source: path });
+  }
+  if (levels >= depth) {
+    throw new DslSyntaxError(`"${path}" needs ${levels + 1} enclosing iterations, but there are ${depth}`, {
+      source: path,
+    });
+  }
+  return type;
+}
+
+function article(type: "integer" | "boolean"): string {
+  return type === "integer" ? "an integer" : "a boolean";
+}
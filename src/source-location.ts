@@ -0,0 +1,65 @@
+import type { SourceLocation, SourcePosition } from "./types.js";
+
+/**
+ * Maps offsets in a source string to line/column positions.
+ */
+export interface SourceLocator {
+  readonly source: string;
+  position(offset: number): SourcePosition;
+  location(start: number, end: number): SourceLocation;
+}
+
+export function createSourceLocator(source: string): SourceLocator {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  const position = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+
+  return {
+    source,
+    position,
+    location: (start, end) => ({ start: position(start), end: position(end) }),
+  };
+}
+
+/**
+ * Render the lines around `location` with a gutter, marking the first line
+ * of the range with `>` and underlining it with carets.
+ */
+export function formatCodeFrame(source: string, location: SourceLocation, contextLines = 2): string {
+  const lines = source.split("\n");
+  const { start, end } = location;
+  const first = Math.max(1, start.line - contextLines);
+  const last = Math.min(lines.length, start.line + contextLines);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1].replace(/\r$/, "");
+    const gutter = String(line).padStart(gutterWidth);
+    frame.push(`${line === start.line ? ">" : " "} ${gutter} | ${text}`.trimEnd());
+
+    if (line === start.line) {
+      const endColumn = end.line === start.line ? end.column : text.length + 1;
+      const width = Math.max(1, endColumn - start.column);
+      const indent = text.slice(0, start.column - 1).replace(/[^\t]/g, " ");
+      frame.push(`  ${" ".repeat(gutterWidth)} | ${indent}${"^".repeat(width)}`);
+    }
+  }
+
+  return frame.join("\n");
+}
@@ -0,0 +1,76 @@
+import { DslError, DslSyntaxError, DataValidationError } from "./errors.js";
+import type { GlobalConfig } from "./dsl-utils.js";
+import { parseHtml } from "./html-parser.js";
+import type { ParseOptions } from "./html-parser.js";
+import { compilePreparedAst } from "./codegen.js";
+import { prepareAst } from "./renderer.js";
+import type { PreparedAst, RenderOptions } from "./renderer.js";
+import { convertSchemaDialect } from "./schema-dialects.js";
+import { extractSchemaFromAst } from "./schema-extractor.js";
+import type { ExtractSchemaOptions } from "./schema-extractor.js";
+import type { ElementNode } from "./types.js";
+import { checkData, validateData } from "./validator.js";
+import type { ValidateOptions, ValidationResult } from "./validator.js";
+
+export type CompileOptions = ParseOptions & ExtractSchemaOptions;
+
+/**
+ * A parsed DSL template that can be rendered and validated repeatedly
+ * without reparsing the source.
+ */
+export interface Template {
+  readonly ast: ElementNode;
+  readonly globalConfig: GlobalConfig;
+  render(data: Record<string, unknown>, options?: RenderOptions): string;
+  /** Returns a fresh copy of the extracted JSON Schema, in the `dialect` given to `compile`. */
+  schema(): Record<string, unknown>;
+  validate(data: Record<string, unknown>, options?: ValidateOptions): void;
+  check(data: Record<string, unknown>): ValidationResult;
+}
+
+/**
+ * Parse a DSL template once. Partials and layouts are resolved against the
+ * registry at compile time; the schema is extracted on first use and cached.
+ */
+export function compile(htmlDSL: string, options: CompileOptions = {}): Template {
+  const prepared = prepareTemplate(htmlDSL, options);
+  const renderFunction = compilePreparedAst(prepared);
+
+  // Data is validated against the draft 2020-12 schema; `schema()` returns it in the requested dialect.
+  let cachedSchema: Record<string, unknown> | undefined;
+  const getSchema = (): Record<string, unknown> => {
+    cachedSchema ??= extractSchemaFromAst(prepared.root, { ...options, dialect: undefined });
+    return cachedSchema;
+  };
+
+  return {
+    ast: prepared.root,
+    globalConfig: prepared.globalConfig,
+    render(data, renderOptions = {}) {
+      return `<!doctype html>${renderFunction(data, renderOptions)}`;
+    },
+    schema() {
+      return options.dialect ? convertSchemaDialect(getSchema(), options.dialect) : structuredClone(getSchema());
+    },
+    validate(data, validateOptions = {}) {
+      try {
+        validateData(data, getSchema(), validateOptions);
+      } catch (err) {
+        if (err instanceof DslError) throw err;
+        throw new DataValidationError(err instanceof Error ? err.message : String(err), { cause: err });
+      }
+    },
+    check(data) {
+      return checkData(data, getSchema());
+    },
+  };
+}
+
+function prepareTemplate(htmlDSL: string, options: ParseOptions): PreparedAst {
+  try {
+    return prepareAst(parseHtml(htmlDSL, options), options.policy);
+  } catch (err) {
+    if (err instanceof DslError) throw err;
+    throw new DslSyntaxError(err instanceof Error ? err.message : String(err), { cause: err });
+  }
+}
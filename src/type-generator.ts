@@ -0,0 +1,128 @@
+import { isPlainObject } from "./dsl-utils.js";
+import { SchemaExtractionError } from "./errors.js";
+import { extractSchemaFromAst } from "./schema-extractor.js";
+import type { ExtractSchemaOptions } from "./schema-extractor.js";
+import type { ElementNode } from "./types.js";
+
+export interface GenerateTypesOptions extends Omit<ExtractSchemaOptions, "dialect"> {
+  /** Name of the interface for the whole data object; nested interfaces are prefixed with it. */
+  rootName?: string;
+}
+
+type SchemaNode = Record<string, unknown>;
+
+interface Declarations {
+  names: Set<string>;
+  blocks: string[];
+}
+
+const IDENTIFIER_RE = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Emit a TypeScript declaration file for the data a template renders: one
+ * interface per object (including each `data-repeat` / `data-page` item),
+ * `enum` as literal unions, `?` fields as `| null`, fields outside the
+ * required set as optional members, and `semantic-description` as JSDoc.
+ */
+export function generateTypesFromAst(root: ElementNode, options: GenerateTypesOptions = {}): string {
+  const rootName = options.rootName ?? "TemplateData";
+  if (!IDENTIFIER_RE.test(rootName)) {
+    throw new SchemaExtractionError(`rootName must be a TypeScript identifier, got ${JSON.stringify(rootName)}`);
+  }
+
+  const schema = extractSchemaFromAst(root, options);
+  const declarations: Declarations = { names: new Set(), blocks: [] };
+  declareInterface(schema, rootName, declarations);
+
+  return `${declarations.blocks.join("\n\n")}\n`;
+}
+
+/** Add an interface for an object schema (nested ones first reserve their names) and return its name. */
+function declareInterface(schema: SchemaNode, name: string, declarations: Declarations): string {
+  const unique = reserveName(name, declarations.names);
+  const index = declarations.blocks.push("") - 1;
+
+  const properties = isPlainObject(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+  const lines = [`export interface ${unique} {`];
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (!isPlainObject(value)) continue;
+
+    const type = typeExpression(value, `${unique}${pascalCase(key)}`, declarations);
+    lines.push(...docComment(value.description, "  "));
+    lines.push(`  ${key}${required.has(key) ? "" : "?"}: ${type};`);
+  }
+  lines.push("}");
+
+  declarations.blocks[index] = [...docComment(schema.description, ""), ...lines].join("\n");
+  return unique;
+}
+
+function typeExpression(schema: SchemaNode, name: string, declarations: Declarations): string {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const nullable = types.includes("null");
+
+  let type: string;
+  if (Array.isArray(schema.enum)) {
+    type = schema.enum.filter((value) => value !== null).map((value) => JSON.stringify(value)).join(" | ");
+  } else if ("const" in schema) {
+    type = JSON.stringify(schema.const);
+  } else if (types.includes("array")) {
+    const items = isPlainObject(schema.items) ? typeExpression(schema.items, singular(name), declarations) : "unknown";
+    type = /^[A-Za-z0-9_$]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+  } else if (types.includes("object")) {
+    type = declareInterface(schema, name, declarations);
+  } else {
+    type = scalarType(types.find((candidate) => candidate !== "null"));
+  }
+
+  return nullable ? `${type} | null` : type;
+}
+
+function scalarType(type: unknown): string {
+  switch (type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "unknown";
+  }
+}
+
+function docComment(description: unknown, indent: string): string[] {
+  if (typeof description !== "string" || description.trim() === "") return [];
+
+  const lines = description.trim().replaceAll("*/", "*\\/").split(/\r?\n/);
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+function pascalCase(key: string): string {
+  return key
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/** Name array items after their array: `InvoiceLines` → `InvoiceLine`, `InvoiceData` → `InvoiceDataItem`. */
+function singular(name: string): string {
+  if (/ies$/.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(s|x|ch|sh)es$/.test(name)) return name.slice(0, -2);
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return `${name}Item`;
+}
+
+function reserveName(name: string, names: Set<string>): string {
+  let unique = name;
+  for (let suffix = 2; names.has(unique); suffix++) {
+    unique = `${name}${suffix}`;
+  }
+  names.add(unique);
+  return unique;
+}
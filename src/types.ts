@@ -2,16 +2,31 @@
 
 export type DslNode = ElementNode | TextNode;
 
+/** A point in the template source. `line` and `column` are 1-based, `offset` is 0-based. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/** The half-open source range `[start, end)` a node or segment was parsed from. */
+export interface SourceLocation {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 export interface ElementNode {
   type: "element";
   tagName: string;
   attributes: Record<string, string>;
   children: DslNode[];
+  location?: SourceLocation;
 }
 
 export interface TextNode {
   type: "text";
   segments: TextSegment[];
+  location?: SourceLocation;
 }
 
 // ── Text Segment Types ──
@@ -30,6 +45,7 @@ export interface InterpolationSegment {
   nullable: boolean;
   constraints: Constraint[];
   filters: Filter[];
+  location?: SourceLocation;
 }
 
 // ── Data Types (DSL_SPECIFICATION.md §data-type) ──
@@ -63,3 +79,43 @@ export interface Filter {
   name: string;
   args: string[];
 }
+
+// ── Condition Expressions (DSL_SPECIFICATION.md §data-if) ──
+
+export type ConditionExpression =
+  | PathCondition
+  | LiteralCondition
+  | NotCondition
+  | LogicalCondition
+  | ComparisonCondition;
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export interface PathCondition {
+  kind: "path";
+  path: string;
+}
+
+export interface LiteralCondition {
+  kind: "literal";
+  value: string | number | boolean | null;
+}
+
+export interface NotCondition {
+  kind: "not";
+  operand: ConditionExpression;
+}
+
+export interface LogicalCondition {
+  kind: "logical";
+  operator: "&&" | "||";
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
+
+export interface ComparisonCondition {
+  kind: "compare";
+  operator: ComparisonOperator;
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
@@ -1,193 +1,413 @@
 import { DataValidationError } from "./errors.js";
+import type { ValidationIssue } from "./errors.js";
 import { isPlainObject } from "./dsl-utils.js";
+import { parseIsoDate, parseIsoDateTime, parseIsoTime } from "./datetime.js";
+
+export interface ValidateOptions {
+  /** `"first"` (default) throws on the first violation, `"all"` collects every violation. */
+  mode?: "first" | "all";
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/** A JSON Schema: an object, or `true` / `false` to accept or reject everything. */
+type Schema = Record<string, unknown> | boolean;
+
+interface ValidationContext {
+  mode: "first" | "all";
+  issues: ValidationIssue[];
+  /** The document `$ref` pointers are resolved against. */
+  root: Schema;
+  /** `$ref` targets being applied, with the value each is applied to; a repeat is a cycle. */
+  resolving: { schema: Schema; value: unknown }[];
+}
 
 export function validateData(
   data: Record<string, unknown>,
-  schema: Record<string, unknown>
+  schema: Record<string, unknown>,
+  options: ValidateOptions = {}
 ): void {
-  validateValue(data, schema, "$data");
+  const { issues } = collectIssues(data, schema, options.mode ?? "first");
+  if (issues.length === 0) {
+    return;
+  }
+
+  const summary = issues.map((issue) => `- ${issue.message}`).join("\n");
+  throw new DataValidationError(`Validation failed with ${issues.length} issue(s):\n${summary}`, {
+    path: issues[0].path,
+    issues,
+  });
 }
 
-function validateValue(value: unknown, schema: Record<string, unknown>, path: string): void {
-  const type = schema.type;
+/**
+ * Validate without throwing and return every violation.
+ */
+export function checkData(data: Record<string, unknown>, schema: Record<string, unknown>): ValidationResult {
+  const { issues } = collectIssues(data, schema, "all");
+  return { valid: issues.length === 0, issues };
+}
 
-  if (Array.isArray(type)) {
-    const nullable = type.includes("null");
-    const nonNullType = type.find((entry) => entry !== "null");
+function collectIssues(
+  data: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  mode: "first" | "all"
+): ValidationContext {
+  const context: ValidationContext = { mode, issues: [], root: schema, resolving: [] };
+  validateValue(data, schema, "$data", context);
+  return context;
+}
 
-    if (value === null && nullable) {
-      return;
-    }
+/**
+ * Record a violation. In `"first"` mode this throws immediately with the
+ * single-issue message.
+ */
+function report(
+  context: ValidationContext,
+  path: string,
+  keyword: string,
+  description: string,
+  expected: unknown,
+  actual: unknown
+): void {
+  const issue: ValidationIssue = {
+    path,
+    keyword,
+    message: `Validation failed at ${path}: ${description}`,
+    expected,
+    actual,
+  };
+
+  if (context.mode === "first") {
+    throw new DataValidationError(issue.message, { path, issues: [issue] });
+  }
+  context.issues.push(issue);
+}
 
-    if (typeof nonNullType === "string") {
-      validateType(value, nonNullType, path);
+function validateValue(value: unknown, schema: Schema, path: string, context: ValidationContext): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    report(context, path, "false", "no value is allowed", false, value);
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(schema.$ref, context.root, path);
+    if (context.resolving.some((entry) => entry.schema === target && entry.value === value)) {
+      throw new DataValidationError(`Circular $ref: ${schema.$ref} applies itself to the same value`, { path });
+    }
+    context.resolving.push({ schema: target, value });
+    try {
+      validateValue(value, target, path, context);
+    } finally {
+      context.resolving.pop();
     }
-  } else if (typeof type === "string") {
-    validateType(value, type, path);
+  }
+
+  const type = schema.type;
+  const types = (Array.isArray(type) ? type : [type]).filter((entry): entry is string => typeof entry === "string");
+
+  // A null accepted by a nullable type skips the remaining keywords, so
+  // constraints such as `enum` need not list `null` explicitly.
+  if (value === null && types.length > 1 && types.includes("null")) {
+    return;
+  }
+
+  if (types.length > 0 && !validateType(value, types, path, context)) {
+    return;
   }
 
   if (schema.enum && Array.isArray(schema.enum)) {
     if (!schema.enum.some((entry) => Object.is(entry, value))) {
-      throw new DataValidationError(`Validation failed at ${path}: value is not in enum`, { path });
+      report(context, path, "enum", "value is not in enum", schema.enum, value);
     }
   }
 
   if (Object.prototype.hasOwnProperty.call(schema, "const")) {
     if (!Object.is(schema.const, value)) {
-      throw new DataValidationError(`Validation failed at ${path}: value is not const`, { path });
+      report(context, path, "const", "value is not const", schema.const, value);
     }
   }
 
-  if (schema.type === "string" || (Array.isArray(schema.type) && schema.type.includes("string"))) {
-    validateStringConstraints(value, schema, path);
-  }
-
-  if (
-    schema.type === "number" ||
-    schema.type === "integer" ||
-    (Array.isArray(schema.type) && (schema.type.includes("number") || schema.type.includes("integer")))
-  ) {
-    validateNumberConstraints(value, schema, path);
-  }
+  validateStringConstraints(value, schema, path, context);
+  validateNumberConstraints(value, schema, path, context);
 
   if (schema.format && typeof value === "string") {
-    validateStringFormat(value, String(schema.format), path);
-  }
-
-  if (schema.type === "object" || (Array.isArray(schema.type) && schema.type.includes("object"))) {
-    validateObject(value, schema, path);
+    validateStringFormat(value, String(schema.format), path, context);
   }
 
-  if (schema.type === "array" || (Array.isArray(schema.type) && schema.type.includes("array"))) {
-    validateArray(value, schema, path);
-  }
+  validateObject(value, schema, path, context);
+  validateArray(value, schema, path, context);
+  validateApplicators(value, schema, path, context);
 }
 
-function validateType(value: unknown, type: string, path: string): void {
-  if (type === "object") {
-    if (!isPlainObject(value)) {
-      throw new DataValidationError(`Validation failed at ${path}: expected object`, { path });
-    }
-    return;
+/** Returns false (after reporting) when the value has none of the given types. */
+function validateType(value: unknown, types: string[], path: string, context: ValidationContext): boolean {
+  if (types.some((type) => matchesType(value, type))) {
+    return true;
   }
 
-  if (type === "array") {
-    if (!Array.isArray(value)) {
-      throw new DataValidationError(`Validation failed at ${path}: expected array`, { path });
-    }
-    return;
-  }
+  const nonNull = types.filter((type) => type !== "null");
+  const expected = nonNull.length > 0 ? nonNull : types;
+  report(
+    context,
+    path,
+    "type",
+    `expected ${expected.join(" or ")}`,
+    expected.length === 1 ? expected[0] : expected,
+    describeType(value)
+  );
+  return false;
+}
 
-  if (type === "integer") {
-    if (typeof value !== "number" || !Number.isInteger(value)) {
-      throw new DataValidationError(`Validation failed at ${path}: expected integer`, { path });
-    }
-    return;
-  }
+function matchesType(value: unknown, type: string): boolean {
+  if (type === "object") return isPlainObject(value);
+  if (type === "array") return Array.isArray(value);
+  if (type === "integer") return typeof value === "number" && Number.isInteger(value);
+  if (type === "number") return typeof value === "number" && !Number.isNaN(value);
+  if (type === "null") return value === null;
+  return typeof value === type;
+}
 
-  if (type === "number") {
-    if (typeof value !== "number" || Number.isNaN(value)) {
-      throw new DataValidationError(`Validation failed at ${path}: expected number`, { path });
-    }
-    return;
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Resolve a local `$ref` (`#` or a JSON Pointer such as `#/$defs/address`)
+ * against the root schema.
+ */
+function resolveRef(ref: string, root: Schema, path: string): Schema {
+  if (ref !== "#" && !ref.startsWith("#/")) {
+    throw new DataValidationError(`Unsupported $ref: ${ref} (only local JSON Pointers are supported)`, { path });
   }
 
-  if (type === "null") {
-    if (value !== null) {
-      throw new DataValidationError(`Validation failed at ${path}: expected null`, { path });
+  const tokens = ref === "#" ? [] : ref.slice(2).split("/");
+  let cursor: unknown = root;
+  for (const token of tokens) {
+    const key = decodeURIComponent(token).replaceAll("~1", "/").replaceAll("~0", "~");
+    if ((!isPlainObject(cursor) && !Array.isArray(cursor)) || !Object.prototype.hasOwnProperty.call(cursor, key)) {
+      throw new DataValidationError(`Unresolvable $ref: ${ref}`, { path });
     }
-    return;
+    cursor = (cursor as Record<string, unknown>)[key];
   }
 
-  if (typeof value !== type) {
-    throw new DataValidationError(`Validation failed at ${path}: expected ${type}`, { path });
+  if (typeof cursor !== "boolean" && !isPlainObject(cursor)) {
+    throw new DataValidationError(`$ref does not point to a schema: ${ref}`, { path });
   }
+  return cursor;
 }
 
-function validateObject(value: unknown, schema: Record<string, unknown>, path: string): void {
+function validateObject(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext
+): void {
   if (!isPlainObject(value)) {
     return;
   }
 
   const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
-  const properties = isPlainObject(schema.properties)
-    ? (schema.properties as Record<string, Record<string, unknown>>)
-    : {};
+  const properties = isPlainObject(schema.properties) ? (schema.properties as Record<string, Schema>) : {};
+  const patternProperties = isPlainObject(schema.patternProperties)
+    ? Object.entries(schema.patternProperties as Record<string, Schema>).map(
+        ([pattern, patternSchema]) => [new RegExp(pattern, "u"), patternSchema] as const
+      )
+    : [];
+  const additionalProperties = schema.additionalProperties as Schema | undefined;
 
   for (const key of required) {
     if (!Object.prototype.hasOwnProperty.call(value, key) || value[key] === undefined) {
-      throw new Error(`Validation failed at ${path}.${key}: required property missing`);
+      report(context, `${path}.${key}`, "required", "required property missing", key, undefined);
     }
   }
 
+  const count = Object.keys(value).length;
+  if (typeof schema.minProperties === "number" && count < schema.minProperties) {
+    report(context, path, "minProperties", "fewer properties than minProperties", schema.minProperties, count);
+  }
+  if (typeof schema.maxProperties === "number" && count > schema.maxProperties) {
+    report(context, path, "maxProperties", "more properties than maxProperties", schema.maxProperties, count);
+  }
+
   for (const [key, propSchema] of Object.entries(properties)) {
     if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
-    validateValue(value[key], propSchema, `${path}.${key}`);
+    validateValue(value[key], propSchema, `${path}.${key}`, context);
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const matching = patternProperties.filter(([regex]) => regex.test(key));
+    for (const [, patternSchema] of matching) {
+      validateValue(item, patternSchema, `${path}.${key}`, context);
+    }
+
+    const additional =
+      additionalProperties !== undefined &&
+      !Object.prototype.hasOwnProperty.call(properties, key) &&
+      matching.length === 0;
+    if (!additional) continue;
+
+    if (additionalProperties === false) {
+      report(context, `${path}.${key}`, "additionalProperties", "additional property not allowed", false, key);
+    } else {
+      validateValue(item, additionalProperties, `${path}.${key}`, context);
+    }
   }
 }
 
-function validateArray(value: unknown, schema: Record<string, unknown>, path: string): void {
+function validateArray(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext
+): void {
   if (!Array.isArray(value)) {
     return;
   }
 
-  if (!isPlainObject(schema.items)) {
-    return;
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    report(context, path, "minItems", "fewer items than minItems", schema.minItems, value.length);
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    report(context, path, "maxItems", "more items than maxItems", schema.maxItems, value.length);
   }
 
-  value.forEach((item, index) => {
-    validateValue(item, schema.items as Record<string, unknown>, `${path}[${index}]`);
-  });
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((item, index) => value.slice(0, index).some((other) => deepEqual(item, other)));
+    if (duplicate !== -1) {
+      report(context, `${path}[${duplicate}]`, "uniqueItems", "duplicate array item", true, value[duplicate]);
+    }
+  }
+
+  if (isPlainObject(schema.items) || typeof schema.items === "boolean") {
+    const items = schema.items as Schema;
+    value.forEach((item, index) => {
+      validateValue(item, items, `${path}[${index}]`, context);
+    });
+  }
+}
+
+/** allOf / anyOf / oneOf and if / then / else. */
+function validateApplicators(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as Schema[]) {
+      validateValue(value, subschema, path, context);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    if (!(schema.anyOf as Schema[]).some((subschema) => isValid(value, subschema, path, context))) {
+      report(context, path, "anyOf", "value matches none of anyOf", schema.anyOf.length, 0);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as Schema[]).filter((subschema) => isValid(value, subschema, path, context)).length;
+    if (matches !== 1) {
+      report(context, path, "oneOf", `value matches ${matches} of oneOf`, 1, matches);
+    }
+  }
+
+  if (schema.if !== undefined) {
+    const branch = isValid(value, schema.if as Schema, path, context) ? schema.then : schema.else;
+    if (branch !== undefined) {
+      validateValue(value, branch as Schema, path, context);
+    }
+  }
+}
+
+/** Evaluate a subschema without reporting its violations. */
+function isValid(value: unknown, schema: Schema, path: string, context: ValidationContext): boolean {
+  const probe: ValidationContext = { mode: "all", issues: [], root: context.root, resolving: context.resolving };
+  validateValue(value, schema, path, probe);
+  return probe.issues.length === 0;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
 }
 
-function validateStringConstraints(value: unknown, schema: Record<string, unknown>, path: string): void {
+function validateStringConstraints(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext
+): void {
   if (typeof value !== "string") return;
 
   if (typeof schema.minLength === "number" && value.length < schema.minLength) {
-    throw new DataValidationError(`Validation failed at ${path}: shorter than minLength`, { path });
+    report(context, path, "minLength", "shorter than minLength", schema.minLength, value.length);
   }
 
   if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
-    throw new DataValidationError(`Validation failed at ${path}: longer than maxLength`, { path });
+    report(context, path, "maxLength", "longer than maxLength", schema.maxLength, value.length);
   }
 
   if (typeof schema.pattern === "string") {
-    const regex = new RegExp(schema.pattern);
+    const regex = new RegExp(schema.pattern, "u");
     if (!regex.test(value)) {
-      throw new DataValidationError(`Validation failed at ${path}: pattern mismatch`, { path });
+      report(context, path, "pattern", "pattern mismatch", schema.pattern, value);
     }
   }
 }
 
-function validateNumberConstraints(value: unknown, schema: Record<string, unknown>, path: string): void {
+function validateNumberConstraints(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  context: ValidationContext
+): void {
   if (typeof value !== "number") return;
 
   if (typeof schema.minimum === "number" && value < schema.minimum) {
-    throw new DataValidationError(`Validation failed at ${path}: smaller than minimum`, { path });
+    report(context, path, "minimum", "smaller than minimum", schema.minimum, value);
   }
   if (typeof schema.maximum === "number" && value > schema.maximum) {
-    throw new DataValidationError(`Validation failed at ${path}: larger than maximum`, { path });
+    report(context, path, "maximum", "larger than maximum", schema.maximum, value);
   }
   if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
-    throw new DataValidationError(`Validation failed at ${path}: not greater than exclusiveMinimum`, { path });
+    report(context, path, "exclusiveMinimum", "not greater than exclusiveMinimum", schema.exclusiveMinimum, value);
   }
   if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
-    throw new DataValidationError(`Validation failed at ${path}: not less than exclusiveMaximum`, { path });
+    report(context, path, "exclusiveMaximum", "not less than exclusiveMaximum", schema.exclusiveMaximum, value);
   }
   if (typeof schema.multipleOf === "number" && value % schema.multipleOf !== 0) {
-    throw new DataValidationError(`Validation failed at ${path}: not multipleOf`, { path });
+    report(context, path, "multipleOf", "not multipleOf", schema.multipleOf, value);
   }
 }
 
-function validateStringFormat(value: string, format: string, path: string): void {
-  const formatRegex: Record<string, RegExp> = {
-    date: /^\d{4}-\d{2}-\d{2}$/,
-    time: /^\d{2}:\d{2}(:\d{2})?$/,
-    "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?$/,
-  };
+const FORMAT_PARSERS: Record<string, (value: string) => unknown> = {
+  date: parseIsoDate,
+  time: parseIsoTime,
+  "date-time": parseIsoDateTime,
+};
 
-  const regex = formatRegex[format];
-  if (regex && !regex.test(value)) {
-    throw new DataValidationError(`Validation failed at ${path}: invalid format ${format}`, { path });
+function validateStringFormat(value: string, format: string, path: string, context: ValidationContext): void {
+  const parse = FORMAT_PARSERS[format];
+  if (parse && parse(value) === undefined) {
+    report(context, path, "format", `invalid format ${format}`, format, value);
   }
 }
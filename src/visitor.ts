@@ -0,0 +1,250 @@
+import { DslSyntaxError, withLocation } from "./errors.js";
+import { parseTextSegments } from "./expression-parser.js";
+import { parseIterationExpression, resolvePathWithAliases } from "./dsl-utils.js";
+import { printInterpolation } from "./printer.js";
+import type { DslNode, ElementNode, InterpolationSegment, TextNode, TextSegment } from "./types.js";
+
+/** Where a visited node sits and what may be done to it. */
+export interface VisitContext {
+  /** The element whose children contain the node; null for the root. */
+  parent: ElementNode | null;
+  /** Enclosing elements, outermost first. */
+  ancestors: readonly ElementNode[];
+  /** Position of the node in `parent.children`. */
+  index: number;
+  /**
+   * `data-repeat` / `data-page` aliases in scope, mapped to the data path
+   * they stand for (`item` → `items[]`). For an element this includes the
+   * aliases it declares itself.
+   */
+  aliases: Readonly<Record<string, string>>;
+  /** Resolve a template path against `aliases`: `item.name` → `items[].name`. */
+  resolvePath(path: string): string;
+  /** Replace the node. The new nodes are not visited; neither are the old node's children or `leave`. */
+  replaceWith(...nodes: DslNode[]): void;
+  /** Remove the node, as `replaceWith()` with no nodes. */
+  remove(): void;
+  /** Insert siblings; they are not visited. */
+  insertBefore(...nodes: DslNode[]): void;
+  insertAfter(...nodes: DslNode[]): void;
+  /** From `enter`: do not visit the node's children. */
+  skip(): void;
+}
+
+/** Where a visited interpolation sits: in a text node, or in an attribute value of `element`. */
+export interface SegmentContext {
+  element: ElementNode;
+  text?: TextNode;
+  attribute?: string;
+  aliases: Readonly<Record<string, string>>;
+  resolvePath(path: string): string;
+  /** Replace the segment with literals and/or interpolations; an attribute value is reprinted. */
+  replaceWith(...segments: TextSegment[]): void;
+  remove(): void;
+}
+
+export type VisitHook<N, C> = (node: N, context: C) => void;
+
+/** A function is called on enter; an object may hook `enter` and `leave`. */
+export type NodeVisitor<N, C> = VisitHook<N, C> | { enter?: VisitHook<N, C>; leave?: VisitHook<N, C> };
+
+export interface DslVisitor {
+  element?: NodeVisitor<ElementNode, VisitContext>;
+  text?: NodeVisitor<TextNode, VisitContext>;
+  /** Interpolations in text and in attribute values. */
+  interpolation?: NodeVisitor<InterpolationSegment, SegmentContext>;
+}
+
+interface Slot {
+  index: number;
+  /** Nodes now occupying the visited node's place: 1, or the replacement count. */
+  size: number;
+  replaced: boolean;
+  insertedAfter: number;
+}
+
+/**
+ * Walk `root` depth-first, calling the visitor's hooks for every element,
+ * text node and interpolation. Hooks may edit the tree in place through
+ * their context. Returns `root`.
+ */
+export function traverseDsl(root: ElementNode, visitor: DslVisitor): ElementNode {
+  visitElement(root, null, [], {}, visitor, undefined);
+  return root;
+}
+
+function visitNode(
+  parent: ElementNode,
+  ancestors: ElementNode[],
+  index: number,
+  aliases: Record<string, string>,
+  visitor: DslVisitor
+): number {
+  const slot: Slot = { index, size: 1, replaced: false, insertedAfter: 0 };
+  const node = parent.children[index];
+
+  if (node.type === "element") {
+    visitElement(node, parent, ancestors, aliases, visitor, slot);
+  } else {
+    const context = createContext(node, parent, ancestors, slot, aliases);
+    const hooks = hooksOf(visitor.text);
+    hooks.enter?.(node, context);
+    if (!slot.replaced) {
+      visitSegments(node.segments, { element: parent, text: node }, aliases, visitor);
+      hooks.leave?.(node, context);
+    }
+  }
+
+  return slot.index + slot.size + slot.insertedAfter;
+}
+
+function visitElement(
+  node: ElementNode,
+  parent: ElementNode | null,
+  ancestors: ElementNode[],
+  parentAliases: Record<string, string>,
+  visitor: DslVisitor,
+  slot: Slot | undefined
+): void {
+  const aliases = declareAliases(node, parentAliases);
+  const hooks = hooksOf(visitor.element);
+  let skipped = false;
+  const context = createContext(node, parent, ancestors, slot, aliases, () => {
+    skipped = true;
+  });
+
+  hooks.enter?.(node, context);
+  if (slot?.replaced) return;
+
+  if (!skipped) {
+    if (visitor.interpolation) visitAttributes(node, aliases, visitor);
+
+    const childAncestors = [...ancestors, node];
+    for (let i = 0; i < node.children.length; ) {
+      i = visitNode(node, childAncestors, i, aliases, visitor);
+    }
+  }
+
+  hooks.leave?.(node, context);
+}
+
+function visitAttributes(node: ElementNode, aliases: Record<string, string>, visitor: DslVisitor): void {
+  for (const [name, value] of Object.entries(node.attributes)) {
+    if (!value.includes("{{")) continue;
+
+    // Locations of attribute segments would be relative to the value, so they are dropped.
+    const segments = withLocation(node.location, undefined, () => parseTextSegments(value));
+    for (const segment of segments) {
+      if (segment.kind === "interpolation") delete segment.location;
+    }
+    if (visitSegments(segments, { element: node, attribute: name }, aliases, visitor)) {
+      node.attributes[name] = segments
+        .map((segment) => (segment.kind === "literal" ? segment.value : printInterpolation(segment)))
+        .join("");
+    }
+  }
+}
+
+/** Visit the interpolations in `segments`, editing the array in place. Returns whether it changed. */
+function visitSegments(
+  segments: TextSegment[],
+  owner: { element: ElementNode; text?: TextNode; attribute?: string },
+  aliases: Record<string, string>,
+  visitor: DslVisitor
+): boolean {
+  const hooks = hooksOf(visitor.interpolation);
+  if (!hooks.enter && !hooks.leave) return false;
+
+  let changed = false;
+  for (let i = 0; i < segments.length; ) {
+    const segment = segments[i];
+    if (segment.kind !== "interpolation") {
+      i++;
+      continue;
+    }
+
+    let size = 1;
+    const context: SegmentContext = {
+      ...owner,
+      aliases,
+      resolvePath: (path) => resolvePathWithAliases(path, aliases),
+      replaceWith: (...replacements) => {
+        segments.splice(i, size, ...replacements);
+        size = replacements.length;
+        changed = true;
+      },
+      remove: () => context.replaceWith(),
+    };
+
+    hooks.enter?.(segment, context);
+    if (segments[i] === segment) hooks.leave?.(segment, context);
+    i += size;
+  }
+  return changed;
+}
+
+function createContext(
+  node: DslNode,
+  parent: ElementNode | null,
+  ancestors: ElementNode[],
+  slot: Slot | undefined,
+  aliases: Record<string, string>,
+  onSkip: () => void = () => {}
+): VisitContext {
+  const edit = (): { siblings: DslNode[]; slot: Slot } => {
+    if (!parent || !slot) {
+      return withLocation(node.location, undefined, () => {
+        throw new DslSyntaxError("The root element cannot be replaced, removed or given siblings");
+      });
+    }
+    return { siblings: parent.children, slot };
+  };
+
+  const context: VisitContext = {
+    parent,
+    ancestors,
+    get index() {
+      return slot?.index ?? 0;
+    },
+    aliases,
+    resolvePath: (path) => resolvePathWithAliases(path, aliases),
+    replaceWith: (...nodes) => {
+      const { siblings, slot } = edit();
+      siblings.splice(slot.index, slot.size, ...nodes);
+      slot.size = nodes.length;
+      slot.replaced = true;
+    },
+    remove: () => context.replaceWith(),
+    insertBefore: (...nodes) => {
+      const { siblings, slot } = edit();
+      siblings.splice(slot.index, 0, ...nodes);
+      slot.index += nodes.length;
+    },
+    insertAfter: (...nodes) => {
+      const { siblings, slot } = edit();
+      siblings.splice(slot.index + slot.size, 0, ...nodes);
+      slot.insertedAfter += nodes.length;
+    },
+    skip: onSkip,
+  };
+  return context;
+}
+
+/** The aliases visible inside `node`: its parent's plus those its `data-page` / `data-repeat` declare. */
+function declareAliases(node: ElementNode, aliases: Record<string, string>): Record<string, string> {
+  const pageExpr = node.attributes["data-page"];
+  const repeatExpr = node.attributes["data-repeat"];
+  if (!pageExpr && !repeatExpr) return aliases;
+
+  const scoped = { ...aliases };
+  for (const expr of [pageExpr, repeatExpr]) {
+    if (!expr) continue;
+    const parsed = withLocation(node.location, undefined, () => parseIterationExpression(expr));
+    scoped[parsed.alias] = `${resolvePathWithAliases(parsed.path, scoped)}[]`;
+  }
+  return scoped;
+}
+
+function hooksOf<N, C>(visitor: NodeVisitor<N, C> | undefined): { enter?: VisitHook<N, C>; leave?: VisitHook<N, C> } {
+  return typeof visitor === "function" ? { enter: visitor } : (visitor ?? {});
+}
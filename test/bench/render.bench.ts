@@ -0,0 +1,72 @@
+/**
+ * Render Benchmark
+ *
+ * Compares one-shot `render()` (parse + prepare + render on every call),
+ * `renderAst()` on a cached AST, and a template compiled once via
+ * `compile()`, which renders through a generated JavaScript function.
+ *
+ *   npm run bench
+ */
+import { bench, describe } from "vitest";
+import { compile, parseDslAst, render, renderAst } from "../../src/index.js";
+
+const source = `
+<html>
+  <head>
+    <meta name="timezone" content="Asia/Tokyo" />
+    <meta name="semantic-description:invoices" content="Invoices to print" />
+  </head>
+  <body style="font-size: 10.5pt;">
+    <section data-page="invoices as invoice" data-break-after="always">
+      <header class="invoice-{{ invoice.status:string }}">
+        <p>{{ invoice.number:string | upper }}</p>
+        <p>{{ invoice.issuedAt:datetime | date-format:YYYY-MM-DD }}</p>
+      </header>
+      <div data-switch="invoice.status">
+        <p data-case="paid">Paid</p>
+        <p data-case="open">Due {{ invoice.dueDate:date | date-format:YYYY/MM/DD }}</p>
+        <p data-default>-</p>
+      </div>
+      <table>
+        <tbody>
+          <tr data-repeat="invoice.items as item" data-fixed-rows="10">
+            <td>{{ item.name:string }}</td>
+            <td>{{ item.quantity:integer? | default:0 }}</td>
+            <td>{{ item.price:integer? | comma }}</td>
+          </tr>
+        </tbody>
+      </table>
+      <p data-if="invoice.total >= 10000">Bulk discount applied</p>
+      <p data-else>Total {{ invoice.total:integer | comma }}</p>
+    </section>
+  </body>
+</html>
+`;
+
+const data = {
+  invoices: Array.from({ length: 2 }, (_, index) => ({
+    number: `inv-${index}`,
+    status: index % 3 === 0 ? "paid" : "open",
+    issuedAt: "2026-01-01T00:00:00Z",
+    dueDate: "2026-02-01",
+    total: index * 1000,
+    items: Array.from({ length: 5 }, (_, row) => ({ name: `item ${row}`, quantity: row, price: row * 250 })),
+  })),
+};
+
+const ast = parseDslAst(source);
+const template = compile(source);
+
+describe("render", () => {
+  bench("render()", () => {
+    render(source, data);
+  });
+
+  bench("renderAst() on a cached AST", () => {
+    renderAst(ast, data);
+  });
+
+  bench("compile() once, then template.render()", () => {
+    template.render(data);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Codegen Equality Test
+ *
+ * Renders every template in test/fixtures/input/ and test/fixtures/samples/
+ * with both the AST renderer and the generated render function, and asserts
+ * byte-identical output.
+ *
+ * Data comes from <name>.data.json next to the template when present;
+ * otherwise sample data is generated from the extracted schema.
+ */
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync, existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { dirname, resolve, basename } from "node:path";
+import { parseDslAst, extractSchema, renderAst, compileRenderFunction } from "../../src/index.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURE_DIRS = ["input", "samples"].map((dir) => resolve(__dirname, dir));
+
+const htmlFiles = FIXTURE_DIRS.flatMap((dir) =>
+  existsSync(dir)
+    ? readdirSync(dir)
+        .filter((f) => f.endsWith(".html"))
+        .map((f) => resolve(dir, f))
+    : []
+);
+
+// ── Sample Data Generator ──
+
+/**
+ * Builds deterministic sample data from a JSON Schema. `seed` varies values
+ * between array items so conditions and switches take different branches.
+ */
+function generateSampleData(schema: Record<string, unknown>, seed: number): unknown {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("null") && seed % 3 === 2) return null;
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[seed % schema.enum.length];
+  }
+
+  switch (types.find((type) => type !== "null")) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, propSchema], index) => [
+          key,
+          generateSampleData(propSchema, seed + index),
+        ])
+      );
+    }
+    case "array": {
+      const items = (schema.items ?? {}) as Record<string, unknown>;
+      return Array.from({ length: 3 }, (_, index) => generateSampleData(items, seed + index));
+    }
+    case "string":
+      if (schema.format === "date") return `2026-0${(seed % 9) + 1}-15`;
+      if (schema.format === "time") return `1${seed % 10}:30:00`;
+      if (schema.format === "date-time") return `2026-03-0${(seed % 9) + 1}T23:45:00Z`;
+      return `value <${seed}> & "more"`;
+    case "integer":
+      return seed * 1234;
+    case "number":
+      return seed * 12.5;
+    case "boolean":
+      return seed % 2 === 0;
+    default:
+      return null;
+  }
+}
+
+// ── Tests ──
+
+if (htmlFiles.length === 0) {
+  describe("codegen", () => {
+    it.skip("no HTML files in test/fixtures/", () => {});
+  });
+} else {
+  describe("codegen", () => {
+    for (const templatePath of htmlFiles) {
+      const name = basename(templatePath, ".html");
+      const dataPath = resolve(dirname(templatePath), `${name}.data.json`);
+
+      it(`${name} renders identically to renderAst`, () => {
+        const template = readFileSync(templatePath, "utf-8");
+        const ast = parseDslAst(template);
+        const renderFunction = compileRenderFunction(ast);
+
+        const datasets: Record<string, unknown>[] = [{}];
+        if (existsSync(dataPath)) {
+          datasets.push(JSON.parse(readFileSync(dataPath, "utf-8")));
+        }
+        const schema = extractSchema(template);
+        for (const seed of [0, 1, 2]) {
+          datasets.push(generateSampleData(schema, seed) as Record<string, unknown>);
+        }
+
+        for (const data of datasets) {
+          expect(renderFunction(data)).toBe(renderAst(ast, data));
+          expect(renderFunction(data, { timezone: "UTC" })).toBe(renderAst(ast, data, { timezone: "UTC" }));
+        }
+      });
+    }
+  });
+}
@@ -35,7 +35,7 @@ describe("parseHtml", () => {
 
   it("filters CSS properties and disallowed units", () => {
     const root = parseHtml(
-      '<html><body><p style="font-size:12px; display:block; transform:rotate(1deg); width:100%; margin:8pt">x</p></body></html>'
+      '<html><body><p style="font-size:12px; display:block; transform:rotate(1deg); width:100%; margin:8pt; padding:2em">x</p></body></html>'
     );
     const body = root.children[0];
     if (body?.type !== "element") throw new Error("body not found");
@@ -46,7 +46,8 @@ describe("parseHtml", () => {
     expect(p.attributes.style).toContain("display:block");
     expect(p.attributes.style).toContain("margin:8pt");
     expect(p.attributes.style).not.toContain("transform");
-    expect(p.attributes.style).not.toContain("100%");
+    expect(p.attributes.style).toContain("width:100%");
+    expect(p.attributes.style).not.toContain("2em");
   });
 
   it("removes img when src is not data URL", () => {
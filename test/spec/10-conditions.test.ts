@@ -0,0 +1,256 @@
+import { describe, it, expect } from "vitest";
+import { parseCondition } from "../../src/condition-parser.js";
+import { parseHtml } from "../../src/html-parser.js";
+import { renderAst } from "../../src/renderer.js";
+import { extractSchemaFromAst } from "../../src/schema-extractor.js";
+import { DslSyntaxError } from "../../src/errors.js";
+
+function renderBody(body: string, data: Record<string, unknown>): string {
+  return renderAst(parseHtml(`<html><body>${body}</body></html>`), data);
+}
+
+function schemaOf(body: string): any {
+  return extractSchemaFromAst(parseHtml(`<html><body>${body}</body></html>`));
+}
+
+describe("parseCondition", () => {
+  it("parses a bare path", () => {
+    expect(parseCondition("contract.enabled")).toStrictEqual({ kind: "path", path: "contract.enabled" });
+  });
+
+  it("parses comparison with string literal", () => {
+    expect(parseCondition('contract.type == "lease"')).toStrictEqual({
+      kind: "compare",
+      operator: "==",
+      left: { kind: "path", path: "contract.type" },
+      right: { kind: "literal", value: "lease" },
+    });
+  });
+
+  it("gives && higher precedence than ||", () => {
+    const expr = parseCondition("a || b && c");
+    expect(expr).toMatchObject({
+      kind: "logical",
+      operator: "||",
+      left: { kind: "path", path: "a" },
+      right: { kind: "logical", operator: "&&" },
+    });
+  });
+
+  it("parses negation and parentheses", () => {
+    expect(parseCondition("!(a || b)")).toMatchObject({
+      kind: "not",
+      operand: { kind: "logical", operator: "||" },
+    });
+  });
+
+  it.each([
+    ["10", 10],
+    ["-1.5", -1.5],
+    ["true", true],
+    ["false", false],
+    ["null", null],
+    ["'single'", "single"],
+  ] as const)("parses literal %s", (source, value) => {
+    expect(parseCondition(`x == ${source}`)).toMatchObject({ right: { kind: "literal", value } });
+  });
+
+  it.each([
+    [""],
+    ["a &&"],
+    ["(a || b"],
+    ["a == 'open"],
+    ["a b"],
+    ["1abc"],
+    ["a + b"],
+  ])("rejects invalid expression %j", (source) => {
+    expect(() => parseCondition(source)).toThrow(DslSyntaxError);
+  });
+});
+
+describe("data-if rendering", () => {
+  it("evaluates equality against string literals", () => {
+    const body = '<p data-if="contract.type == \'lease\'">lease</p>';
+    expect(renderBody(body, { contract: { type: "lease" } })).toContain("<p>lease</p>");
+    expect(renderBody(body, { contract: { type: "sale" } })).not.toContain("<p>lease</p>");
+  });
+
+  it("evaluates && with negation", () => {
+    const body = '<p data-if="contract.type == \'lease\' && !contract.cancelled">x</p>';
+    expect(renderBody(body, { contract: { type: "lease", cancelled: false } })).toContain("<p>x</p>");
+    expect(renderBody(body, { contract: { type: "lease", cancelled: true } })).not.toContain("<p>x</p>");
+  });
+
+  it("supports > inside quoted attribute values", () => {
+    const body = '<ul data-if="items.length > 0"><li data-repeat="items as item">{{ item.name:string }}</li></ul>';
+    expect(renderBody(body, { items: [{ name: "A" }] })).toContain("<ul><li>A</li></ul>");
+    expect(renderBody(body, { items: [] })).not.toContain("<ul>");
+  });
+
+  it("reads .length of strings", () => {
+    const body = '<p data-if="title.length > 3">long</p><p data-if="title.length == 0">empty</p>';
+    expect(renderBody(body, { title: "abcd" })).toContain("<p>long</p>");
+    expect(renderBody(body, { title: "abc" })).not.toContain("<p>long</p>");
+    expect(renderBody(body, { title: "" })).toContain("<p>empty</p>");
+    expect(renderBody(body, {})).not.toContain("<p>");
+  });
+
+  it("evaluates numeric ordering and parentheses", () => {
+    const body = '<p data-if="(total >= 100 || vip) && total < 1000">discount</p>';
+    expect(renderBody(body, { total: 150, vip: false })).toContain("discount");
+    expect(renderBody(body, { total: 50, vip: true })).toContain("discount");
+    expect(renderBody(body, { total: 50, vip: false })).not.toContain("discount");
+    expect(renderBody(body, { total: 1500, vip: true })).not.toContain("discount");
+  });
+
+  it("treats ordering between different types as false", () => {
+    expect(renderBody('<p data-if="total > 0">x</p>', { total: "5" })).not.toContain("<p>x</p>");
+  });
+
+  it("treats missing values as null", () => {
+    expect(renderBody('<p data-if="note == null">empty</p>', {})).toContain("empty");
+  });
+});
+
+describe("data-if schema inference", () => {
+  it("keeps bare paths as required booleans", () => {
+    const schema = schemaOf('<p data-if="flags.visible">x</p>');
+    expect(schema.properties.flags.properties.visible.type).toBe("boolean");
+    expect(schema.properties.flags.required).toContain("visible");
+  });
+
+  it("infers types from compared literals", () => {
+    const schema = schemaOf(
+      '<p data-if="contract.type == \'lease\' && contract.term > 12 && !contract.cancelled">x</p>'
+    );
+    const props = schema.properties.contract.properties;
+    expect(props.type.type).toBe("string");
+    expect(props.term.type).toBe("number");
+    expect(props.cancelled.type).toBe("boolean");
+  });
+
+  it("marks the base of .length as an array", () => {
+    const schema = schemaOf(
+      '<ul data-if="items.length > 0"><li data-repeat="items as item">{{ item.name:string }}</li></ul>'
+    );
+    expect(schema.properties.items.type).toBe("array");
+    expect(schema.properties.items.items.properties.name.type).toBe("string");
+    expect(schema.properties.items.properties).toBeUndefined();
+  });
+
+  it("reads .length as a field of a path used as an object", () => {
+    const schema = schemaOf('<p data-if="doc.length > 100">long</p><p>{{ doc.title:string }}</p>');
+    expect(schema.properties.doc.type).toBe("object");
+    expect(schema.properties.doc.properties).toStrictEqual({ length: { type: "number" }, title: { type: "string" } });
+
+    const declared = schemaOf('<p data-if="doc.length > 100">long</p><p>{{ doc.length:integer (min:0) }}</p>');
+    expect(declared.properties.doc.properties.length).toStrictEqual({ type: "integer", minimum: 0 });
+    expect(declared.properties.doc.required).toStrictEqual(["length"]);
+  });
+
+  it("keeps string declarations for .length reads", () => {
+    for (const body of [
+      '<p data-if="title.length > 3">long</p><p>{{ title:string }}</p>',
+      '<p>{{ title:string }}</p><p data-if="title.length > 3">long</p>',
+    ]) {
+      expect(schemaOf(body).properties.title).toStrictEqual({ type: "string" });
+    }
+    expect(schemaOf('<p>{{ due:date }}</p><p data-if="due.length > 0">x</p>').properties.due.format).toBe("date");
+  });
+
+  it("reports .length on a path declared as a non-string scalar", () => {
+    expect(() => schemaOf('<p>{{ count:integer }}</p><p data-if="count.length > 0">x</p>')).toThrow(
+      '"count.length" reads an array length here but it is declared as integer ' +
+        "at line 1, column 16 (line 1, column 39)"
+    );
+  });
+
+  it("does not infer types for null or path-to-path comparisons", () => {
+    const schema = schemaOf('<p data-if="note != null && a == b">x</p>');
+    expect(schema.properties).toStrictEqual({});
+  });
+
+  it("lets explicit interpolation types win over inferred ones", () => {
+    const schema = schemaOf('<p data-if="count > 0">{{ count:integer }}</p><p>{{ label:string }}</p><p data-if="label">y</p>');
+    expect(schema.properties.count.type).toBe("integer");
+    expect(schema.properties.label.type).toBe("string");
+  });
+});
+
+describe("data-else-if / data-else", () => {
+  const chain = `
+    <p data-if="plan == 'pro'">{{ pro.seats:integer }}</p>
+    <p data-else-if="plan == 'basic'">{{ basic.note:string }} {{ shared:string }}</p>
+    <p data-else>{{ fallback:string }} {{ shared:string }}</p>
+  `;
+
+  it("renders only the first matching branch", () => {
+    expect(renderBody(chain, { plan: "pro", pro: { seats: 3 } })).toContain("<p>3</p>");
+    const basic = renderBody(chain, { plan: "basic", basic: { note: "B" }, shared: "S" });
+    expect(basic).toContain("<p>B S</p>");
+    expect(basic).not.toContain("<p> S</p>");
+    const other = renderBody(chain, { plan: "x", fallback: "F", shared: "S" });
+    expect(other).toContain("<p>F S</p>");
+    expect((other.match(/<p>/g) ?? []).length).toBe(1);
+  });
+
+  it("renders data-else when data-if fails", () => {
+    const body = '<p data-if="paid">paid</p><p data-else>unpaid</p>';
+    expect(renderBody(body, { paid: true })).toContain("<p>paid</p>");
+    expect(renderBody(body, { paid: true })).not.toContain("unpaid");
+    expect(renderBody(body, { paid: false })).toContain("<p>unpaid</p>");
+  });
+
+  it("starts a new chain at each data-if", () => {
+    const body = '<p data-if="a">A</p><p data-else>notA</p><p data-if="b">B</p><p data-else>notB</p>';
+    const html = renderBody(body, { a: true, b: false });
+    expect(html).toContain("<p>A</p><p>notB</p>");
+  });
+
+  it.each([
+    ['<p data-else>x</p>'],
+    ['<p>plain</p><p data-else-if="a">x</p>'],
+    ['<p data-if="a">A</p>text<p data-else>x</p>'],
+    ['<p data-if="a">A</p><p data-else>B</p><p data-else>C</p>'],
+    ['<p data-if="a" data-else>x</p>'],
+    ['<li data-if="a" data-repeat="items as item">x</li><li data-else>y</li>'],
+  ])("rejects orphan or malformed branch %j", (body) => {
+    expect(() => parseHtml(`<html><body>${body}</body></html>`)).toThrow(DslSyntaxError);
+  });
+
+  it("marks fields used in only some branches as non-required", () => {
+    const schema = schemaOf(chain);
+
+    expect(schema.required).toContain("plan");
+    expect(schema.required).not.toContain("shared");
+    expect(schema.required).not.toContain("pro");
+    expect(schema.required).not.toContain("basic");
+    expect(schema.required).not.toContain("fallback");
+    expect(schema.properties.pro.properties.seats.type).toBe("integer");
+    expect(schema.properties.pro.required).toContain("seats");
+  });
+
+  it("keeps fields used by every branch of an exhaustive chain required", () => {
+    const schema = schemaOf('<p data-if="a">{{ x:string }} {{ y:string }}</p><p data-else>{{ x:string }}</p>');
+    expect(schema.required).toContain("x");
+    expect(schema.required).not.toContain("y");
+  });
+
+  it("relaxes nested keys of objects populated differently per branch", () => {
+    const schema = schemaOf('<p data-if="a">{{ c.x:string }}</p><p data-else>{{ c.y:string }}</p>');
+    expect(schema.required).toContain("c");
+    expect(schema.properties.c.required).toStrictEqual([]);
+  });
+
+  it("keeps fields shared by every branch of a non-exhaustive chain optional", () => {
+    const schema = schemaOf('<p data-if="a">{{ x:string }}</p><p data-else-if="b">{{ x:string }}</p>');
+    expect(schema.required).toContain("a");
+    expect(schema.required).toContain("b");
+    expect(schema.required).not.toContain("x");
+  });
+
+  it("keeps fields also used outside the chain required", () => {
+    const schema = schemaOf('<p>{{ name:string }}</p><p data-if="a">{{ name:string }}</p><p data-else>-</p>');
+    expect(schema.required).toContain("name");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { parseHtml } from "../../src/html-parser.js";
+import { renderAst } from "../../src/renderer.js";
+import { extractSchemaFromAst } from "../../src/schema-extractor.js";
+import type { ExtractSchemaOptions } from "../../src/schema-extractor.js";
+import { DslSyntaxError, SchemaExtractionError } from "../../src/errors.js";
+
+function renderBody(body: string, data: Record<string, unknown>): string {
+  return renderAst(parseHtml(`<html><body>${body}</body></html>`), data);
+}
+
+function schemaOf(body: string, options: ExtractSchemaOptions = {}): any {
+  return extractSchemaFromAst(parseHtml(`<html><body>${body}</body></html>`), options);
+}
+
+const template = `
+  <div data-switch="contract.plan">
+    <p data-case="basic">Basic</p>
+    <p data-case="pro">Pro {{ contract.seats:integer }}</p>
+    <p data-case="enterprise">Enterprise {{ contract.seats:integer }} {{ contract.sla:string }}</p>
+    <p data-default>Unknown</p>
+  </div>
+`;
+
+describe("data-switch rendering", () => {
+  it("renders the matching case only", () => {
+    const html = renderBody(template, { contract: { plan: "pro", seats: 5 } });
+    expect(html).toContain("<div><p>Pro 5</p></div>");
+  });
+
+  it("renders data-default when no case matches", () => {
+    const html = renderBody(template, { contract: { plan: "free" } });
+    expect(html).toContain("<div><p>Unknown</p></div>");
+  });
+
+  it("renders no case when nothing matches and there is no default", () => {
+    const html = renderBody('<div data-switch="kind"><p data-case="a">A</p></div>', { kind: "b" });
+    expect(html).toContain("<div></div>");
+  });
+
+  it("keeps non-case children", () => {
+    const html = renderBody(
+      '<div data-switch="kind"><span>Kind:</span><p data-case="a">A</p><p data-case="b">B</p></div>',
+      { kind: "b" }
+    );
+    expect(html).toContain("<div><span>Kind:</span><p>B</p></div>");
+  });
+
+  it("compares non-string values by their string form", () => {
+    const html = renderBody('<div data-switch="level"><p data-case="1">one</p><p data-case="2">two</p></div>', {
+      level: 2,
+    });
+    expect(html).toContain("<p>two</p>");
+  });
+
+  it("resolves switch paths through iteration aliases", () => {
+    const html = renderBody(
+      '<ul><li data-repeat="items as item" data-switch="item.kind"><span data-case="a">A</span><span data-case="b">B</span></li></ul>',
+      { items: [{ kind: "b" }, { kind: "a" }] }
+    );
+    expect(html).toContain("<li><span>B</span></li><li><span>A</span></li>");
+  });
+});
+
+describe("data-switch validation", () => {
+  it.each([
+    ['<p data-case="a">x</p>'],
+    ['<div><p data-default>x</p></div>'],
+    ['<div data-switch="kind"><div><p data-case="a">nested</p></div></div>'],
+    ['<div data-switch="kind"><p data-case="a">A</p><p data-case="a">again</p></div>'],
+    ['<div data-switch="kind"><p data-case="a">A</p><p data-default>1</p><p data-default>2</p></div>'],
+    ['<div data-switch="kind"><p data-case="">empty</p></div>'],
+    ['<div data-switch="kind"><p>no cases</p></div>'],
+  ])("rejects %j", (body) => {
+    expect(() => parseHtml(`<html><body>${body}</body></html>`)).toThrow(DslSyntaxError);
+  });
+
+  it("rejects an invalid switch path", () => {
+    expect(() => schemaOf('<div data-switch="1bad"><p data-case="a">A</p></div>')).toThrow(DslSyntaxError);
+  });
+});
+
+describe("data-switch schema extraction", () => {
+  it("emits a required string enum of all case labels", () => {
+    const schema = schemaOf(template);
+    const plan = schema.properties.contract.properties.plan;
+
+    expect(plan.type).toBe("string");
+    expect(plan.enum).toStrictEqual(["basic", "pro", "enterprise"]);
+    expect(schema.properties.contract.required).toContain("plan");
+  });
+
+  it("treats cases as exhaustive branches for required fields", () => {
+    const schema = schemaOf(template);
+    expect(schema.properties.contract.required).not.toContain("seats");
+    expect(schema.properties.contract.required).not.toContain("sla");
+    expect(schema.properties.contract.properties.seats.type).toBe("integer");
+  });
+
+  it("reports labels outside an explicitly declared enum, or merges them on request", () => {
+    const body =
+      '<div data-switch="plan"><p data-case="basic">B</p><p data-case="pro">P</p></div>' +
+      "<p>{{ plan:string (enum:basic,trial) }}</p>";
+
+    expect(() => schemaOf(body)).toThrow(
+      'Conflicting declarations of "plan": data-case "pro" is outside enum:basic,trial declared ' +
+        "at line 1, column 96 (line 1, column 63)"
+    );
+    expect(schemaOf(body, { conflicts: "merge" }).properties.plan.enum).toStrictEqual(["basic", "trial", "pro"]);
+    expect(schemaOf(body.replace("pro", "trial")).properties.plan.enum).toStrictEqual(["basic", "trial"]);
+  });
+
+  it("reports labels that differ from a fixed value", () => {
+    const body = '<div data-switch="plan"><p data-case="pro">P</p></div><p>{{ plan:string (fixed:basic) }}</p>';
+
+    expect(() => schemaOf(body, { conflicts: "merge" })).toThrow(/data-case "pro" is outside fixed:basic declared/);
+  });
+
+  it("rejects labels that are not values of the declared type", () => {
+    const body =
+      '<p>{{ level:integer }}</p><div data-switch="level"><p data-case="1">one</p><p data-case="abc">x</p></div>';
+
+    expect(() => schemaOf(body)).toThrow(
+      'data-case label "abc" is not a valid integer for "level" (line 1, column 88)'
+    );
+    expect(() =>
+      schemaOf('<p>{{ level:integer }}</p><div data-switch="level"><p data-case="1.5">x</p></div>')
+    ).toThrow(SchemaExtractionError);
+    expect(() => schemaOf('<p>{{ on:boolean }}</p><div data-switch="on"><p data-case="yes">x</p></div>')).toThrow(
+      'data-case label "yes" is not a valid boolean'
+    );
+    expect(
+      schemaOf('<p>{{ rate:number }}</p><div data-switch="rate"><p data-case="0.5">x</p><p data-case="-2">y</p></div>')
+        .properties.rate.enum
+    ).toStrictEqual([0.5, -2]);
+  });
+
+  it("converts labels to the declared type", () => {
+    const schema = schemaOf(`
+      <p>{{ level:integer }}</p>
+      <div data-switch="level"><p data-case="1">one</p><p data-case="2">two</p></div>
+    `);
+    expect(schema.properties.level.type).toBe("integer");
+    expect(schema.properties.level.enum).toStrictEqual([1, 2]);
+  });
+
+  it("resolves aliases for switch paths inside repeats", () => {
+    const schema = schemaOf(
+      '<ul><li data-repeat="items as item" data-switch="item.kind"><span data-case="a">A</span><span data-case="b">B</span></li></ul>'
+    );
+    expect(schema.properties.items.items.properties.kind.enum).toStrictEqual(["a", "b"]);
+  });
+});
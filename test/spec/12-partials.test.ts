@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { parseHtml } from "../../src/html-parser.js";
+import { extractSchema, render, DslSyntaxError } from "../../src/index.js";
+
+const registry = new Map<string, string>([
+  [
+    "company-header",
+    `<head><meta name="semantic-description:company.name" content="Issuing company" /></head>
+     <body><p>{{ company.name:string }}</p><p>{{ company.phone:string? }}</p></body>`,
+  ],
+  ["signature", `<div data-include="company-header"></div><p>{{ signer.name:string }}</p>`],
+]);
+
+describe("data-include", () => {
+  it("splices the partial into the host element", () => {
+    const root = parseHtml('<html><body><header data-include="company-header"></header></body></html>', {
+      registry,
+    });
+    const body = root.children[0];
+    if (body?.type !== "element") throw new Error("body not found");
+    const header = body.children[0];
+    if (header?.type !== "element") throw new Error("header not found");
+
+    expect(header.attributes["data-include"]).toBeUndefined();
+    expect(header.children.map((child) => (child.type === "element" ? child.tagName : "text"))).toStrictEqual([
+      "meta",
+      "p",
+      "p",
+    ]);
+  });
+
+  it("renders partial content with host data", () => {
+    const html = render(
+      '<html><body><header data-include="company-header" class="top"></header></body></html>',
+      { company: { name: "ACME", phone: null } },
+      { registry }
+    );
+    expect(html).toContain('<header class="top"><p>ACME</p><p></p></header>');
+  });
+
+  it("resolves nested partials", () => {
+    const html = render(
+      '<html><body><footer data-include="signature"></footer></body></html>',
+      { company: { name: "ACME" }, signer: { name: "Bob" } },
+      { registry }
+    );
+    expect(html).toContain("<footer><div><p>ACME</p><p></p></div><p>Bob</p></footer>");
+  });
+
+  it("merges partial fields and semantics into the host schema", () => {
+    const schema = extractSchema(
+      '<html><body><p>{{ invoice.number:string }}</p><footer data-include="signature"></footer></body></html>',
+      { registry }
+    ) as any;
+
+    expect(schema.required).toStrictEqual(["company", "invoice", "signer"]);
+    expect(schema.properties.company.properties.name.description).toBe("Issuing company");
+    expect(schema.properties.company.required).toStrictEqual(["name"]);
+    expect(schema.properties.signer.properties.name.type).toBe("string");
+  });
+
+  it("resolves partial paths through the host's iteration aliases", () => {
+    const rows = new Map([["row", "<td>{{ item.name:string }}</td>"]]);
+    const schema = extractSchema(
+      '<html><body><table><tr data-repeat="items as item" data-include="row"></tr></table></body></html>',
+      { registry: rows }
+    ) as any;
+    expect(schema.properties.items.items.properties.name.type).toBe("string");
+  });
+
+  it("detects include cycles", () => {
+    const cyclic = new Map([
+      ["a", '<div data-include="b"></div>'],
+      ["b", '<div data-include="a"></div>'],
+    ]);
+    expect(() => parseHtml('<html><body><div data-include="a"></div></body></html>', { registry: cyclic })).toThrow(
+      /Circular data-include: a -> b -> a/
+    );
+  });
+
+  it("rejects unknown partials", () => {
+    expect(() => parseHtml('<html><body><div data-include="missing"></div></body></html>', { registry })).toThrow(
+      DslSyntaxError
+    );
+    expect(() => parseHtml('<html><body><div data-include="signature"></div></body></html>')).toThrow(
+      /Unknown partial: signature/
+    );
+  });
+
+  it("rejects include hosts with content", () => {
+    expect(() =>
+      parseHtml('<html><body><div data-include="signature"><p>x</p></div></body></html>', { registry })
+    ).toThrow(DslSyntaxError);
+  });
+});
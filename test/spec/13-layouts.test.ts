@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { parseHtml } from "../../src/html-parser.js";
+import { extractSchema, render, DslSyntaxError } from "../../src/index.js";
+
+const base = `
+<html>
+  <head>
+    <meta name="timezone" content="UTC" />
+    <meta name="semantic-description:company.name" content="Issuing company" />
+  </head>
+  <body>
+    <header><p>{{ company.name:string }}</p></header>
+    <main data-slot="content"><p>No content</p></main>
+    <footer data-slot="footer"><p>Default footer</p></footer>
+  </body>
+</html>
+`;
+
+const registry = new Map<string, string>([
+  ["base", base],
+  [
+    "letter",
+    `<html><head><meta name="extends" content="base" /></head><body>
+      <div data-fill="content"><section data-slot="letter-body"></section><p>Regards</p></div>
+    </body></html>`,
+  ],
+]);
+
+describe("layout inheritance", () => {
+  const child = `
+    <html>
+      <head>
+        <meta name="extends" content="base" />
+        <meta name="timezone" content="Asia/Tokyo" />
+        <meta name="semantic-description:invoice.issuedAt" content="Issue timestamp" />
+      </head>
+      <body>
+        <div data-fill="content">
+          <p>{{ invoice.issuedAt:datetime | date-format:YYYY-MM-DD HH:mm }}</p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  it("resolves into a single tree with fills placed into slots", () => {
+    const html = render(
+      child,
+      { company: { name: "ACME" }, invoice: { issuedAt: "2026-01-01T00:00:00Z" } },
+      { registry }
+    );
+
+    expect(html).toContain("<header><p>ACME</p></header>");
+    expect(html).toContain("<main><p>2026-01-01 09:00</p></main>");
+    expect(html).toContain("<footer><p>Default footer</p></footer>");
+    expect(html).not.toContain("No content");
+    expect(html).not.toContain("data-slot");
+  });
+
+  it("applies global config and semantics from both layers", () => {
+    const schema = extractSchema(child, { registry }) as any;
+
+    expect(schema.properties.company.properties.name.description).toBe("Issuing company");
+    expect(schema.properties.invoice.properties.issuedAt.description).toBe("Issue timestamp");
+    expect(schema.required).toStrictEqual(["company", "invoice"]);
+  });
+
+  it("drops the extends meta from the resolved tree", () => {
+    const root = parseHtml(child, { registry });
+    const head = root.children.find((node) => node.type === "element" && node.tagName === "head");
+    if (head?.type !== "element") throw new Error("head not found");
+    const names = head.children.map((node) => (node.type === "element" ? node.attributes.name : ""));
+    expect(names).not.toContain("extends");
+    expect(names).toContain("timezone");
+  });
+
+  it("supports multi-level layouts", () => {
+    const html = render(
+      `<meta name="extends" content="letter" /><div data-fill="letter-body"><p>{{ body:string }}</p></div>`,
+      { company: { name: "ACME" }, body: "Hello" },
+      { registry }
+    );
+    expect(html).toContain("<main><section><p>Hello</p></section><p>Regards</p></main>");
+  });
+
+  it.each([
+    ['<meta name="extends" content="missing" />', /Unknown layout: missing/],
+    ['<meta name="extends" content="base" /><div data-fill="nope">x</div>', /no matching data-slot/],
+    ['<meta name="extends" content="base" /><p>stray</p>', /Content outside data-fill/],
+    [
+      '<meta name="extends" content="base" /><div data-fill="footer">a</div><div data-fill="footer">b</div>',
+      /Duplicate data-fill: footer/,
+    ],
+    ['<html><body><div data-fill="content">x</div></body></html>', /data-fill is only allowed/],
+  ])("rejects %j", (source, message) => {
+    expect(() => parseHtml(source, { registry })).toThrow(DslSyntaxError);
+    expect(() => parseHtml(source, { registry })).toThrow(message);
+  });
+
+  it("detects circular layouts", () => {
+    const cyclic = new Map([
+      ["a", '<meta name="extends" content="b" />'],
+      ["b", '<meta name="extends" content="a" />'],
+    ]);
+    expect(() => parseHtml('<meta name="extends" content="a" />', { registry: cyclic })).toThrow(
+      /Circular extends: a -> b -> a/
+    );
+  });
+});
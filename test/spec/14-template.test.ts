@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { compile, extractSchema, render, DataValidationError, DslSyntaxError } from "../../src/index.js";
+
+const source = `
+  <html>
+    <head><meta name="timezone" content="Asia/Tokyo" /></head>
+    <body>
+      <header class="title-{{ kind:string }}">{{ title:string | upper }}</header>
+      <p data-if="total > 100">big</p>
+      <p data-else>small</p>
+      <div data-switch="kind"><span data-case="a">A</span><span data-default>other</span></div>
+      <ul><li data-repeat="items as item" data-max-rows="2">{{ item.name:string }}</li></ul>
+      <p>{{ issuedAt:datetime | date-format:YYYY-MM-DD HH:mm }}</p>
+    </body>
+  </html>
+`;
+
+const data = {
+  title: "invoice",
+  kind: "a",
+  total: 150,
+  items: [{ name: "x" }, { name: "y" }, { name: "z" }],
+  issuedAt: "2026-01-01T00:00:00Z",
+};
+
+describe("compile", () => {
+  it("renders the same output as render()", () => {
+    const template = compile(source);
+    expect(template.render(data)).toBe(render(source, data));
+    expect(template.render({ ...data, kind: "b", total: 1 })).toBe(render(source, { ...data, kind: "b", total: 1 }));
+  });
+
+  it("can be rendered repeatedly with different data", () => {
+    const template = compile(source);
+    expect(template.render(data)).toContain('<header class="title-a">INVOICE</header>');
+    expect(template.render({ ...data, title: "quote", kind: "b" })).toContain('<header class="title-b">QUOTE</header>');
+  });
+
+  it("exposes the global config and honours render-time overrides", () => {
+    const template = compile(source);
+    expect(template.globalConfig.timezone).toBe("Asia/Tokyo");
+    expect(template.render(data)).toContain("<p>2026-01-01 09:00</p>");
+    expect(template.render(data, { timezone: "UTC" })).toContain("<p>2026-01-01 00:00</p>");
+  });
+
+  it("returns the extracted schema as an independent copy", () => {
+    const template = compile(source);
+    const schema = template.schema();
+    expect(schema).toStrictEqual(extractSchema(source));
+
+    (schema.properties as Record<string, unknown>).title = {};
+    expect(template.schema()).toStrictEqual(extractSchema(source));
+  });
+
+  it("validates data against the cached schema", () => {
+    const template = compile(source);
+    expect(() => template.validate(data)).not.toThrow();
+    expect(() => template.validate({ ...data, title: 1 })).toThrow(DataValidationError);
+  });
+
+  it("resolves partials at compile time", () => {
+    const template = compile('<html><body><div data-include="greeting"></div></body></html>', {
+      registry: new Map([["greeting", "<p>Hello {{ name:string }}</p>"]]),
+    });
+    expect(template.render({ name: "Ann" })).toContain("<div><p>Hello Ann</p></div>");
+  });
+
+  it("reports invalid expressions at compile time", () => {
+    expect(() => compile('<html><body><p data-if="a &&">x</p></body></html>')).toThrow(DslSyntaxError);
+    expect(() => compile('<html><body><p data-repeat="items">x</p></body></html>')).toThrow(DslSyntaxError);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { parseHtml } from "../../src/html-parser.js";
+import { renderAst } from "../../src/renderer.js";
+import { compileRenderFunction, generateRenderSource } from "../../src/codegen.js";
+import { DslSyntaxError } from "../../src/errors.js";
+
+function parseBody(body: string) {
+  return parseHtml(`<html><body>${body}</body></html>`);
+}
+
+const cases: [string, string, Record<string, unknown>[]][] = [
+  [
+    "text and attribute interpolations",
+    '<p class="a {{ kind:string }} b" title="&quot;x&quot;">{{ name:string | upper }} &amp; {{ note:string? }}</p>',
+    [{ kind: 'x"<y', name: "<tag>", note: null }, {}],
+  ],
+  [
+    "repeats with fixed and max rows",
+    '<table><tr data-repeat="rows as row" data-fixed-rows="4" data-max-rows="3"><td>{{ row.name:string }} {{ $index:integer }} {{ $page.number:integer }}/{{ $page.count:integer }}</td></tr></table>',
+    [{ rows: [{ name: "a" }, { name: "b" }] }, { rows: [1, 2, 3, 4, 5] }, { rows: "nope" }, {}],
+  ],
+  [
+    "scope variables in nested iterations",
+    '<section data-page="pages as page"><p data-repeat="page.rows as row" data-fixed-rows="3" class="r{{ $index:integer }}"><span data-if="$first || $last">{{ $parent.$page.number:integer }}.{{ $page.number:integer }}/{{ $page.count:integer }}</span><em data-repeat="row.tags as tag">{{ $parent.$index:integer }}{{ $parent.$parent.$index:integer }}</em></p></section>',
+    [{ pages: [{ rows: [{ tags: [1, 2] }, {}] }, { rows: [] }] }],
+  ],
+  [
+    "nested repeats and alias shadowing",
+    '<div data-repeat="groups as g"><p data-repeat="g.items as g">{{ g.name:string }}</p><span>{{ g.title:string }}</span></div>',
+    [{ groups: [{ title: "T", items: [{ name: "n1" }, { name: "n2" }] }, { title: "U" }] }],
+  ],
+  [
+    "pages with breaks and styles",
+    '<section data-page="pages as page" data-break-after="always" style="color: red"><p>{{ page.text:string }}</p></section>',
+    [{ pages: [{ text: "one" }, { text: "two" }] }],
+  ],
+  [
+    "conditions and else chains",
+    '<p data-if="a > 1 && !(b == \'x\') || c">A</p><p data-else-if="d != null">D</p><p data-else>E</p><p data-if="a">F</p>',
+    [{ a: 2, b: "y" }, { a: 0, c: true }, { a: "5", d: 0 }, { b: "x", a: 3 }, {}],
+  ],
+  [
+    "length of arrays, strings and objects",
+    '<p data-if="s.length > 2">S</p><p data-if="list.length">L</p><p data-if="o.length == 1">O</p><li data-repeat="items as item" data-if="item.length">{{ item:string }}</li>',
+    [{ s: "abc", list: [1], o: { length: 1 }, items: ["a", "", "bc"] }, { s: "ab", list: [], o: "x" }, { s: 3 }, {}],
+  ],
+  [
+    "repeat with data-if in a chain",
+    '<li data-repeat="items as item" data-if="item.on">{{ item.n:integer }}</li><p data-if="flag">F</p><p data-else>G</p>',
+    [{ items: [{ on: true, n: 1 }, { on: false, n: 2 }], flag: false }],
+  ],
+  [
+    "switches",
+    '<div data-switch="kind"><span>Kind:</span><p data-case="1">one</p><p data-case=" two ">two</p><p data-default>other</p></div>',
+    [{ kind: 1 }, { kind: "two" }, { kind: "three" }, { kind: null }, {}],
+  ],
+  [
+    "filters and dates",
+    '<meta name="timezone" content="Asia/Tokyo" /><p>{{ at:datetime | date-format:YYYY-MM-DD HH:mm }} {{ n:number | comma }} {{ s:string? | default:- }}</p>',
+    [{ at: "2026-01-01T00:00:00Z", n: 1234.5, s: null }],
+  ],
+  [
+    "paths through non-objects",
+    "<p>{{ a.b.c:string? }}{{ list.length:integer? }}{{ constructor:string? }}</p>",
+    [{ a: { b: "str" } }, { a: null }, { a: [{ c: 1 }] }, { list: [1, 2] }],
+  ],
+];
+
+describe("compileRenderFunction", () => {
+  it.each(cases)("matches renderAst for %s", (_name, body, datasets) => {
+    const ast = parseBody(body);
+    const renderFunction = compileRenderFunction(ast);
+    for (const data of datasets) {
+      expect(renderFunction(data)).toBe(renderAst(ast, data));
+    }
+  });
+
+  it("honours the timezone render option", () => {
+    const ast = parseBody('<p>{{ at:datetime | date-format:HH:mm }}</p>');
+    expect(compileRenderFunction(ast)({ at: "2026-01-01T00:00:00Z" }, { timezone: "Asia/Tokyo" })).toContain(
+      "<p>09:00</p>"
+    );
+  });
+
+  it("rejects invalid expressions when compiling", () => {
+    expect(() => compileRenderFunction(parseBody('<p data-if="a &&">x</p>'))).toThrow(DslSyntaxError);
+  });
+});
+
+describe("generateRenderSource", () => {
+  it("inlines path lookups and hoists filter arguments", () => {
+    const source = generateRenderSource(parseBody('<p>{{ user.name:string | upper }}</p>'));
+    expect(source).toContain('v["name"]');
+    expect(source).toContain('[{"name":"upper","args":[]}]');
+    expect(source).not.toContain("getByPath");
+  });
+
+  it("produces a function body that takes the runtime", () => {
+    const source = generateRenderSource(parseBody("<p>static</p>"));
+    const factory = new Function("runtime", source);
+    const render = factory({ applyFilters: () => "", escapeHtml: (value: string) => value });
+    expect(render({})).toBe("<html><body><p>static</p></body></html>");
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { checkData, compile, extractSchema, validate, DataValidationError } from "../../src/index.js";
+
+const template = `
+  <html><body>
+    <p>{{ user.name:string (min:2) }}</p>
+    <p>{{ user.age:integer (min:0, max:150) }}</p>
+    <p>{{ user.code:string (pattern:^[A-Z]+$) }}</p>
+    <p>{{ user.plan:string (enum:basic,pro) }}</p>
+    <p>{{ user.joined:date }}</p>
+    <ul><li data-repeat="items as item">{{ item.price:integer (min:1) }}</li></ul>
+  </body></html>
+`;
+const schema = extractSchema(template);
+
+const invalid = {
+  user: { name: "A", age: 200, code: "abc", plan: "free", joined: "2026/01/01" },
+  items: [{ price: 0 }, {}, { price: "1" }],
+};
+
+function caught(fn: () => void): DataValidationError {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof DataValidationError) return err;
+    throw err;
+  }
+  throw new Error("expected DataValidationError");
+}
+
+describe("validate with mode: all", () => {
+  it("collects every violation with keyword, expected and actual values", () => {
+    const error = caught(() => validate(invalid, schema, { mode: "all" }));
+
+    expect(error.issues.map(({ path, keyword }) => [path, keyword])).toStrictEqual([
+      ["$data.items[0].price", "minimum"],
+      ["$data.items[1].price", "required"],
+      ["$data.items[2].price", "type"],
+      ["$data.user.age", "maximum"],
+      ["$data.user.code", "pattern"],
+      ["$data.user.joined", "format"],
+      ["$data.user.name", "minLength"],
+      ["$data.user.plan", "enum"],
+    ]);
+    expect(error.issues[0]).toMatchObject({ expected: 1, actual: 0 });
+    expect(error.issues[2]).toMatchObject({ expected: "integer", actual: "string" });
+    expect(error.issues[3]).toMatchObject({ expected: 150, actual: 200 });
+    expect(error.issues[6]).toMatchObject({ expected: 2, actual: 1 });
+    expect(error.path).toBe("$data.items[0].price");
+    expect(error.message).toContain("8 issue(s)");
+    expect(error.message).toContain("Validation failed at $data.items[2].price: expected integer");
+  });
+
+  it("does not report constraint violations for values of the wrong type", () => {
+    const error = caught(() => validate({ ...invalid, user: { ...invalid.user, plan: 1 } }, schema, { mode: "all" }));
+    const planIssues = error.issues.filter((issue) => issue.path === "$data.user.plan");
+    expect(planIssues.map((issue) => issue.keyword)).toStrictEqual(["type"]);
+  });
+
+  it("does not throw for valid data", () => {
+    const data = {
+      user: { name: "Ann", age: 30, code: "ABC", plan: "pro", joined: "2026-01-01" },
+      items: [{ price: 1 }],
+    };
+    expect(() => validate(data, schema, { mode: "all" })).not.toThrow();
+  });
+});
+
+describe("validate in the default mode", () => {
+  it("still throws on the first violation with a single issue", () => {
+    const error = caught(() => validate(invalid, schema));
+    expect(error.message).toBe("Validation failed at $data.items[0].price: smaller than minimum");
+    expect(error.issues).toHaveLength(1);
+    expect(error.issues[0].keyword).toBe("minimum");
+  });
+
+  it("reports missing required properties as DataValidationError", () => {
+    const error = caught(() => validate({ items: [] }, schema));
+    expect(error.issues[0]).toMatchObject({ path: "$data.user", keyword: "required", expected: "user" });
+  });
+});
+
+describe("checkData", () => {
+  it("returns a result object instead of throwing", () => {
+    const result = checkData(invalid, schema);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toHaveLength(8);
+    expect(checkData({ user: { name: "Ann", age: 1, code: "ABC", plan: "pro", joined: "2026-01-01" }, items: [] }, schema))
+      .toStrictEqual({ valid: true, issues: [] });
+  });
+
+  it("is available on compiled templates", () => {
+    const compiled = compile(template);
+    expect(compiled.check(invalid).issues).toHaveLength(8);
+    expect(caught(() => compiled.validate(invalid, { mode: "all" })).issues).toHaveLength(8);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { dirname, resolve } from "node:path";
+import { checkData } from "../../src/validator.js";
+import { DataValidationError } from "../../src/errors.js";
+
+interface SuiteGroup {
+  description: string;
+  schema: Record<string, unknown>;
+  tests: { description: string; data: unknown; valid: boolean }[];
+}
+
+const SUITE_DIR = resolve(dirname(fileURLToPath(import.meta.url)), "../fixtures/json-schema-test-suite");
+
+for (const file of readdirSync(resolve(SUITE_DIR, "draft4")).filter((f) => f.endsWith(".json"))) {
+  const groups = JSON.parse(readFileSync(resolve(SUITE_DIR, "draft4", file), "utf-8")) as SuiteGroup[];
+
+  describe(`draft4/${file}`, () => {
+    for (const group of groups) {
+      describe(group.description, () => {
+        it.each(group.tests.map((test) => [test.description, test] as const))("%s", (_description, test) => {
+          const result = checkData(test.data as Record<string, unknown>, group.schema);
+          expect(result.valid).toBe(test.valid);
+        });
+      });
+    }
+  });
+}
+
+describe("keyword issues", () => {
+  it("reports the failing keyword and location", () => {
+    const schema = {
+      $defs: { tag: { type: "string", minLength: 1 } },
+      type: "object",
+      properties: { tags: { type: "array", items: { $ref: "#/$defs/tag" }, uniqueItems: true, maxItems: 3 } },
+      additionalProperties: false,
+      minProperties: 1,
+    };
+    const result = checkData({ tags: ["a", "", "a", "b"], extra: 1 }, schema);
+
+    expect(result.issues.map(({ path, keyword }) => [path, keyword])).toStrictEqual([
+      ["$data.tags", "maxItems"],
+      ["$data.tags[2]", "uniqueItems"],
+      ["$data.tags[1]", "minLength"],
+      ["$data.extra", "additionalProperties"],
+    ]);
+  });
+
+  it("rejects unresolvable and remote references", () => {
+    expect(() => checkData({}, { $ref: "#/$defs/missing" })).toThrow(DataValidationError);
+    expect(() => checkData({}, { $ref: "https://example.com/schema.json" })).toThrow(/Unsupported \$ref/);
+  });
+
+  it("rejects $ref cycles that never reach the data", () => {
+    expect(() => checkData({}, { $ref: "#" })).toThrow(DataValidationError);
+    expect(() => checkData({}, { $ref: "#" })).toThrow("Circular $ref: # applies itself to the same value");
+
+    const indirect = { $defs: { a: { allOf: [{ $ref: "#/$defs/b" }] }, b: { $ref: "#/$defs/a" } }, $ref: "#/$defs/a" };
+    expect(() => checkData({ x: 1 }, indirect)).toThrow("Circular $ref: #/$defs/a applies itself to the same value");
+    expect(() => checkData({}, { anyOf: [{ $ref: "#" }] })).toThrow(DataValidationError);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { applyFilters } from "../../src/filters.js";
+import { checkData } from "../../src/validator.js";
+import { compile, render, RenderError } from "../../src/index.js";
+
+function formatIssues(format: string, value: string) {
+  return checkData({ value }, { type: "object", properties: { value: { type: "string", format } } }).issues;
+}
+
+describe("format validation", () => {
+  it.each([
+    ["2024-02-29"],
+    ["2000-02-29"],
+    ["2023-12-31"],
+    ["2023-04-30"],
+  ])("accepts date %s", (value) => {
+    expect(formatIssues("date", value)).toStrictEqual([]);
+  });
+
+  it.each([
+    ["2024-02-30"],
+    ["2023-02-29"],
+    ["1900-02-29"],
+    ["2024-04-31"],
+    ["2024-13-01"],
+    ["2024-00-10"],
+    ["2024-01-00"],
+    ["2024-1-01"],
+  ])("rejects date %s", (value) => {
+    expect(formatIssues("date", value)).toMatchObject([{ keyword: "format", expected: "date", actual: value }]);
+  });
+
+  it.each([["00:00"], ["23:59:59"], ["12:30:15.250"], ["09:00Z"], ["09:00+09:00"]])("accepts time %s", (value) => {
+    expect(formatIssues("time", value)).toStrictEqual([]);
+  });
+
+  it.each([["25:99"], ["24:00"], ["12:60"], ["12:00:60"], ["12:00.5"], ["12:00+15:00"]])("rejects time %s", (value) => {
+    expect(formatIssues("time", value)).toHaveLength(1);
+  });
+
+  it.each([
+    ["2024-02-29T23:59:59Z"],
+    ["2024-01-01T00:00"],
+    ["2024-01-01T00:00:00.123456+14:00"],
+    ["2024-01-01T00:00:00-1200"],
+    ["2024-01-01t00:00:00z"],
+  ])("accepts date-time %s", (value) => {
+    expect(formatIssues("date-time", value)).toStrictEqual([]);
+  });
+
+  it.each([
+    ["2024-13-01T00:00"],
+    ["2023-02-29T10:00:00Z"],
+    ["2024-01-01T24:00:00Z"],
+    ["2024-01-01T00:00:00+14:30"],
+    ["2024-01-01T00:00:00+09:60"],
+    ["2024-01-01 00:00:00Z"],
+    ["2024-01-01"],
+  ])("rejects date-time %s", (value) => {
+    expect(formatIssues("date-time", value)).toHaveLength(1);
+  });
+});
+
+describe("date-format in strict mode", () => {
+  const format = (value: unknown, dataType: "date" | "time" | "datetime", strict: boolean) =>
+    applyFilters(value, [{ name: "date-format", args: ["YYYY/MM/DD HH:mm"] }], { dataType, strict });
+
+  it.each([
+    ["2024-02-30", "date"],
+    ["not a date", "date"],
+    ["25:99", "time"],
+    ["2024-13-01T00:00", "datetime"],
+    [20240101, "datetime"],
+  ] as const)("raises RenderError for %j as %s", (value, dataType) => {
+    expect(() => format(value, dataType, true)).toThrow(RenderError);
+  });
+
+  it("echoes unparseable values outside strict mode", () => {
+    expect(format("not a date", "date", false)).toBe("not a date");
+  });
+
+  it("formats valid values and skips null", () => {
+    expect(format("2024-02-29", "date", true)).toBe("2024/02/29 00:00");
+    expect(format("2024-02-29Z", "date", true)).toBe("2024/02/29 00:00");
+    expect(format("2024-02-29T12:34:00Z", "datetime", true)).toBe("2024/02/29 12:34");
+    expect(format(null, "datetime", true)).toBe("");
+  });
+
+  it("is enabled through RenderOptions for render and compiled templates", () => {
+    const source = "<html><body><p>{{ at:date | date-format:YYYY/MM/DD }}</p></body></html>";
+    const data = { at: "2024-02-30" };
+
+    expect(render(source, data)).toContain("<p>2024/02/30</p>");
+    expect(() => render(source, data, { strictDates: true })).toThrow(RenderError);
+    expect(() => compile(source).render(data, { strictDates: true })).toThrow(/cannot parse "2024-02-30" as date/);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { prepareAst } from "../../src/renderer.js";
+import {
+  extractSchema,
+  parseDslAst,
+  parseTextSegments,
+  DslError,
+  DslSyntaxError,
+  formatCodeFrame,
+} from "../../src/index.js";
+import type { ElementNode, InterpolationSegment, TextNode } from "../../src/index.js";
+
+function catchError(fn: () => unknown): DslError {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof DslError) return err;
+    throw err;
+  }
+  throw new Error("expected an error");
+}
+
+const template = [
+  "<html>",
+  "<body>",
+  "  <section>",
+  "    <p>Name: {{ user.name:string }}</p>",
+  "  </section>",
+  "</body>",
+  "</html>",
+].join("\n");
+
+function findElement(root: ElementNode, tagName: string): ElementNode {
+  for (const child of root.children) {
+    if (child.type !== "element") continue;
+    if (child.tagName === tagName) return child;
+    const found = findElement(child, tagName);
+    if (found.tagName === tagName) return found;
+  }
+  return root;
+}
+
+describe("AST locations", () => {
+  it("records the span of an element from its open tag to its closing tag", () => {
+    const section = findElement(parseDslAst(template), "section");
+
+    expect(section.location?.start).toStrictEqual({ line: 3, column: 3, offset: template.indexOf("<section>") });
+    expect(section.location?.end).toStrictEqual({
+      line: 5,
+      column: 13,
+      offset: template.indexOf("</section>") + "</section>".length,
+    });
+  });
+
+  it("records text nodes and interpolation segments", () => {
+    const p = findElement(parseDslAst(template), "p");
+    const text = p.children[0] as TextNode;
+    const segment = text.segments[1] as InterpolationSegment;
+
+    expect(text.location?.start).toMatchObject({ line: 4, column: 8 });
+    expect(segment.location?.start).toMatchObject({ line: 4, column: 14 });
+    expect(segment.location?.end).toMatchObject({ line: 4, column: 36 });
+    expect(template.slice(segment.location!.start.offset, segment.location!.end.offset))
+      .toBe("{{ user.name:string }}");
+  });
+
+  it("locates segments relative to the text when parsed on their own", () => {
+    const [, segment] = parseTextSegments("a\n {{ x:string }}");
+
+    expect((segment as InterpolationSegment).location?.start).toStrictEqual({ line: 2, column: 2, offset: 3 });
+  });
+});
+
+describe("error locations", () => {
+  it("points interpolation errors at the interpolation", () => {
+    const error = catchError(() =>
+      extractSchema("<html><body>\n<p>\n  {{ total:strng }}\n</p>\n</body></html>")
+    );
+
+    expect(error).toBeInstanceOf(DslSyntaxError);
+    expect(error.message).toBe("Invalid data type: strng (line 3, column 3)");
+    expect(error.location?.start).toMatchObject({ line: 3, column: 3 });
+    expect(error.codeFrame).toBe(
+      ["  1 | <html><body>", "  2 | <p>", "> 3 |   {{ total:strng }}", "    |   ^^^^^^^^^^^^^^^^^", "  4 | </p>",
+        "  5 | </body></html>"].join("\n")
+    );
+  });
+
+  it("locates filter and constraint errors", () => {
+    const filterError = catchError(() => extractSchema("<p>ok</p>\n<p>{{ n:number | upper }}</p>"));
+    const constraintError = catchError(() => extractSchema("<p>{{ flag:boolean (min:1) }}</p>"));
+
+    expect(filterError.location?.start).toMatchObject({ line: 2, column: 4 });
+    expect(filterError.message).toMatch(/^Filter "upper" is not allowed for type "number"/);
+    expect(constraintError.location?.start).toMatchObject({ line: 1, column: 4 });
+  });
+
+  it("points iteration expression errors at the attribute value", () => {
+    const error = catchError(() => extractSchema('<table>\n  <tr data-repeat="items">\n</tr></table>'));
+
+    expect(error.message).toBe("Invalid iteration expression: items (line 2, column 20)");
+    expect(error.codeFrame).toContain('> 2 |   <tr data-repeat="items">\n    |                    ^^^^^');
+  });
+
+  it("points attribute interpolation errors into the tag", () => {
+    const error = catchError(() => parseDslAst('<div>\n<img src="{{ logo:str }}"></div>'));
+
+    expect(error.location?.start).toMatchObject({ line: 2, column: 11 });
+  });
+
+  it("uses the partial's own source for errors inside a partial", () => {
+    const registry = new Map([["footer", "<p>\n{{ page:int }}</p>"]]);
+    const error = catchError(() => parseDslAst('<div data-include="footer"></div>', { registry }));
+
+    expect(error.location?.start).toMatchObject({ line: 2, column: 1 });
+    expect(error.codeFrame).toContain("> 2 | {{ page:int }}");
+  });
+
+  it("falls back to the element location for hand-built ASTs", () => {
+    const root = parseDslAst("<ul>\n  <li>x</li>\n</ul>");
+    const li = findElement(root, "li");
+    li.attributes["data-repeat"] = "rows";
+
+    const error = catchError(() => prepareAst(root));
+
+    expect(error.location?.start).toMatchObject({ line: 2, column: 3 });
+    expect(error.codeFrame).toBeUndefined();
+  });
+});
+
+describe("formatCodeFrame", () => {
+  it("underlines the rest of the first line for multi-line ranges", () => {
+    const source = "one\ntwo three\nfour";
+    const frame = formatCodeFrame(source, {
+      start: { line: 2, column: 5, offset: 8 },
+      end: { line: 3, column: 2, offset: 15 },
+    }, 0);
+
+    expect(frame).toBe("> 2 | two three\n    |     ^^^^^");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { compile, parseDslAst, render, DslSyntaxError, RenderError } from "../../src/index.js";
+import type { ParseOptions, SanitizeDiagnostic } from "../../src/index.js";
+
+function collect(html: string, options: ParseOptions = {}): SanitizeDiagnostic[] {
+  const diagnostics: SanitizeDiagnostic[] = [];
+  parseDslAst(html, { ...options, onDiagnostic: (diagnostic) => diagnostics.push(diagnostic) });
+  return diagnostics;
+}
+
+describe("sanitization diagnostics", () => {
+  it("reports a disallowed tag once, not its dropped descendants", () => {
+    const diagnostics = collect("<body>\n<h1>Invoice <script>x</script></h1>\n</body>");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      reason: "tag",
+      tagName: "h1",
+      message: "Removed <h1> and its content: tag is not allowed",
+    });
+    expect(diagnostics[0].location.start).toMatchObject({ line: 2, column: 1 });
+  });
+
+  it("reports disallowed attributes with their location", () => {
+    const html = '<div class="a" onclick="run()" data-x="1"></div>';
+    const diagnostics = collect(html);
+
+    expect(diagnostics.map((d) => [d.reason, d.name])).toStrictEqual([
+      ["attribute", "onclick"],
+      ["attribute", "data-x"],
+    ]);
+    const { start, end } = diagnostics[0].location;
+    expect(html.slice(start.offset, end.offset)).toBe('onclick="run()"');
+  });
+
+  it("reports images without a data URL", () => {
+    const diagnostics = collect('<p><img src="https://example.com/a.png" alt="a"></p>');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ reason: "img-src", tagName: "img", name: "src" });
+  });
+
+  it("reports each filtered CSS declaration", () => {
+    const html = '<div style="color: red; position: absolute; display: flex"></div>';
+    const diagnostics = collect(html);
+
+    expect(diagnostics.map((d) => [d.reason, d.name])).toStrictEqual([
+      ["css-property", "position"],
+      ["css-value", "display"],
+    ]);
+    const { start, end } = diagnostics[0].location;
+    expect(html.slice(start.offset, end.offset)).toBe("position: absolute");
+    expect(diagnostics[1].message).toBe('Removed CSS declaration "display: flex" from <div>: value "flex" is not allowed');
+  });
+
+  it("reports nothing for a clean template", () => {
+    expect(collect('<html><body><p style="color: red">{{ name:string }}</p></body></html>')).toStrictEqual([]);
+  });
+
+  it("reports removals inside partials against the partial source", () => {
+    const registry = new Map([["header", "<div>\n<h2>Title</h2></div>"]]);
+    const diagnostics = collect('<section data-include="header"></section>', { registry });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].location.start).toMatchObject({ line: 2, column: 1 });
+  });
+});
+
+describe("strict sanitization", () => {
+  it("throws DslSyntaxError with a location for the first removal", () => {
+    let caught: unknown;
+    try {
+      parseDslAst("<body>\n  <h1>Title</h1>\n</body>", { strictSanitize: true });
+    } catch (err) {
+      caught = err;
+    }
+
+    expect(caught).toBeInstanceOf(DslSyntaxError);
+    const error = caught as DslSyntaxError;
+    expect(error.message).toBe("Removed <h1> and its content: tag is not allowed (line 2, column 3)");
+    expect(error.codeFrame).toContain("> 2 |   <h1>Title</h1>");
+  });
+
+  it("applies to compile and render", () => {
+    const html = '<p style="float: left">x</p>';
+
+    expect(() => compile(html, { strictSanitize: true })).toThrow(DslSyntaxError);
+    expect(() => render(html, {}, { strictSanitize: true })).toThrow(/float/);
+    expect(render(html, {})).toBe("<!doctype html><html><p>x</p></html>");
+  });
+
+  it("is independent of strict date handling", () => {
+    const html = "<h1>Title</h1><p>{{ at:date | date-format:YYYY/MM/DD }}</p>";
+
+    expect(render(html, { at: "2024-02-29" }, { strictDates: true })).toBe(
+      "<!doctype html><html><p>2024/02/29</p></html>"
+    );
+    expect(() => render(html, { at: "2024-02-30" }, { strictDates: true })).toThrow(RenderError);
+    expect(() => render(html, { at: "2024-02-29" }, { strictSanitize: true })).toThrow(DslSyntaxError);
+    expect(render(html.slice("<h1>Title</h1>".length), { at: "2024-02-30" }, { strictSanitize: true })).toBe(
+      "<!doctype html><html><p>2024/02/30</p></html>"
+    );
+  });
+});
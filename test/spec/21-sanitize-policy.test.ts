@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  compile,
+  compileRenderFunction,
+  extractSchema,
+  parseDslAst,
+  render,
+  renderAst,
+  resolveSanitizePolicy,
+  DEFAULT_SANITIZE_POLICY,
+} from "../../src/index.js";
+import type { SanitizePolicy } from "../../src/index.js";
+
+const reportPolicy: SanitizePolicy = {
+  allowTags: ["h1", "caption", "tfoot", "col"],
+  allowAttributes: ["title"],
+};
+
+describe("resolveSanitizePolicy", () => {
+  it("returns the shared defaults without a policy", () => {
+    expect(resolveSanitizePolicy()).toBe(DEFAULT_SANITIZE_POLICY);
+    expect(DEFAULT_SANITIZE_POLICY.tags.has("h1")).toBe(false);
+    expect([...DEFAULT_SANITIZE_POLICY.voidTags].sort()).toStrictEqual(["br", "hr", "img", "meta"]);
+  });
+
+  it("adds allowed and removes denied entries", () => {
+    const policy = resolveSanitizePolicy({
+      allowTags: ["H1", "col"],
+      denyTags: ["img"],
+      denyAttributes: ["data-include"],
+      allowCssProperties: ["text-decoration"],
+      denyCssProperties: ["color"],
+    });
+
+    expect(policy.tags.has("h1")).toBe(true);
+    expect(policy.tags.has("img")).toBe(false);
+    expect(policy.voidTags.has("col")).toBe(true);
+    expect(policy.voidTags.has("img")).toBe(false);
+    expect(policy.controlAttributes.has("data-include")).toBe(false);
+    expect(policy.controlAttributes.has("data-repeat")).toBe(true);
+    expect(policy.cssProperties.has("text-decoration")).toBe(true);
+    expect(policy.cssProperties.has("color")).toBe(false);
+  });
+
+  it("never allows script-capable tags or event handler attributes", () => {
+    const policy = resolveSanitizePolicy({
+      allowTags: ["script", "iframe", "a"],
+      allowAttributes: ["onclick", "href", "title"],
+    });
+
+    expect(policy.tags.has("script")).toBe(false);
+    expect(policy.tags.has("iframe")).toBe(false);
+    expect(policy.tags.has("a")).toBe(true);
+    expect(policy.attributes.has("onclick")).toBe(false);
+    expect(policy.attributes.has("href")).toBe(false);
+    expect(policy.attributes.has("title")).toBe(true);
+  });
+});
+
+describe("parsing and rendering with a policy", () => {
+  const template = [
+    "<table>",
+    '<caption title="{{ title:string }}">{{ title:string }}</caption>',
+    "<colgroup><col><col></colgroup>",
+    "<tfoot><tr><td>{{ total:integer }}</td></tr></tfoot>",
+    "</table>",
+  ].join("");
+
+  it("keeps tags the policy allows and renders allowed void tags without closing tags", () => {
+    const html = render(template, { title: "Q1", total: 3 }, { policy: reportPolicy });
+
+    expect(html).toBe(
+      '<!doctype html><html><table><caption title="Q1">Q1</caption><colgroup><col><col></colgroup>' +
+        "<tfoot><tr><td>3</td></tr></tfoot></table></html>"
+    );
+  });
+
+  it("drops the same tags under the default policy", () => {
+    expect(render(template, { title: "Q1", total: 3 })).toBe(
+      "<!doctype html><html><table><colgroup></colgroup></table></html>"
+    );
+  });
+
+  it("extracts fields from tags the policy allows", () => {
+    const schema = extractSchema("<h1>{{ heading:string }}</h1>", { policy: reportPolicy });
+
+    expect(schema.required).toStrictEqual(["heading"]);
+  });
+
+  it("restricts the defaults for externally authored templates", () => {
+    const policy: SanitizePolicy = { denyTags: ["img"], denyAttributes: ["class", "data-include"] };
+    const ast = parseDslAst('<div class="x" data-include="p"><img src="data:image/png;base64,AA"></div>', {
+      policy,
+    });
+
+    expect(ast.children).toStrictEqual([
+      expect.objectContaining({ tagName: "div", attributes: {}, children: [] }),
+    ]);
+  });
+
+  it("renders identically through compile and compileRenderFunction", () => {
+    const data = { title: "Q1", total: 3 };
+    const ast = parseDslAst(template, { policy: reportPolicy });
+
+    expect(compile(template, { policy: reportPolicy }).render(data)).toBe(
+      render(template, data, { policy: reportPolicy })
+    );
+    expect(compileRenderFunction(ast, reportPolicy)(data)).toBe(renderAst(ast, data, { policy: reportPolicy }));
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  compile,
+  createCodegenRuntime,
+  generateRenderSource,
+  parseDslAst,
+  render,
+  resolveSanitizePolicy,
+  RenderError,
+} from "../../src/index.js";
+import type { SanitizeDiagnostic, SanitizePolicy } from "../../src/index.js";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+const imgTemplate = '<div><img src="{{ logo:string }}" alt="logo"></div>';
+const styleTemplate = '<p style="color: {{ color:string }}; width: {{ width:integer }}px">x</p>';
+
+function renderBoth(template: string, data: Record<string, unknown>, policy?: SanitizePolicy): string {
+  const rendered = render(template, data, { policy });
+  expect(compile(template, { policy }).render(data)).toBe(rendered);
+  return rendered;
+}
+
+describe("interpolated src", () => {
+  it("keeps data URLs with an allowed image type", () => {
+    expect(renderBoth(imgTemplate, { logo: PNG })).toContain(`<img src="${PNG}" alt="logo">`);
+  });
+
+  it.each([
+    ["https://tracker.example/pixel.gif"],
+    ["javascript:alert(1)"],
+    ["data:text/html;base64,PHNjcmlwdD4="],
+    ["data:image/svg+xml,<svg></svg>"],
+    [""],
+  ])("drops src %j", (logo) => {
+    expect(renderBoth(imgTemplate, { logo })).toBe('<!doctype html><html><div><img alt="logo"></div></html>');
+  });
+
+  it("throws RenderError when the policy asks for it", () => {
+    const policy: SanitizePolicy = { unsafeValues: "throw" };
+
+    expect(() => render(imgTemplate, { logo: "javascript:alert(1)" }, { policy })).toThrow(RenderError);
+    expect(() => compile(imgTemplate, { policy }).render({ logo: "https://x" })).toThrow(
+      /Unsafe src value: src must be a data: URL with an allowed image type/
+    );
+  });
+
+  it("honours the policy's image types", () => {
+    const svg = "data:image/svg+xml;base64,PHN2Zz4=";
+    const policy: SanitizePolicy = { allowImageTypes: ["image/svg+xml"], denyImageTypes: ["image/png"] };
+
+    expect(renderBoth(imgTemplate, { logo: svg }, policy)).toContain(`src="${svg}"`);
+    expect(renderBoth(imgTemplate, { logo: PNG }, policy)).toContain('<img alt="logo">');
+  });
+
+  it("applies the MIME allowlist to static src at parse time", () => {
+    const diagnostics: SanitizeDiagnostic[] = [];
+    parseDslAst('<img src="data:text/html,hi">', { onDiagnostic: (d) => diagnostics.push(d) });
+
+    expect(diagnostics.map((d) => d.reason)).toStrictEqual(["img-src"]);
+  });
+});
+
+describe("interpolated style", () => {
+  it("renders interpolated declarations that pass the CSS sanitizer", () => {
+    expect(renderBoth(styleTemplate, { color: "red", width: 120 })).toBe(
+      '<!doctype html><html><p style="color:red; width:120px">x</p></html>'
+    );
+  });
+
+  it("drops declarations that data turns into disallowed CSS", () => {
+    const html = renderBoth(styleTemplate, { color: "red; position: absolute", width: 1 });
+
+    expect(html).toContain('style="color:red; width:1px"');
+  });
+
+  it("drops banned values and the attribute when nothing is left", () => {
+    const template = '<p style="background-color: {{ bg:string }}">x</p>';
+
+    expect(renderBoth(template, { bg: "url(https://tracker.example/p.gif)" })).toBe(
+      "<!doctype html><html><p>x</p></html>"
+    );
+  });
+
+  it("keeps page-break styles next to interpolated style", () => {
+    const template = '<section style="color: {{ c:string }}" data-break-before="always">x</section>';
+
+    expect(renderBoth(template, { c: "blue" })).toContain('style="color:blue; page-break-before:always"');
+  });
+
+  it("throws RenderError for a disallowed declaration when the policy asks for it", () => {
+    expect(() =>
+      render(styleTemplate, { color: "red; float: left", width: 1 }, { policy: { unsafeValues: "throw" } })
+    ).toThrow(/Unsafe style value: style declaration "float: left" is not allowed/);
+  });
+
+  it("reports interpolation errors in style at parse time", () => {
+    expect(() => parseDslAst('<p style="color: {{ c:colour }}">x</p>')).toThrow(/Invalid data type: colour/);
+  });
+});
+
+describe("createCodegenRuntime", () => {
+  it("provides the policy check to generated source", () => {
+    const source = generateRenderSource(parseDslAst(imgTemplate));
+    const factory = new Function("runtime", source);
+    const strictRender = factory(createCodegenRuntime(resolveSanitizePolicy({ unsafeValues: "throw" })));
+
+    expect(factory(createCodegenRuntime())({ logo: "https://x" })).toBe('<html><div><img alt="logo"></div></html>');
+    expect(() => strictRender({ logo: "https://x" })).toThrow(RenderError);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parseDslAst, render } from "../../src/index.js";
+import type { ElementNode, SanitizePolicy } from "../../src/index.js";
+
+function sanitize(declaration: string, policy?: SanitizePolicy): string | undefined {
+  const root = parseDslAst(`<p style="${declaration}">x</p>`, { policy });
+  return (root.children[0] as ElementNode).attributes.style;
+}
+
+type Row = [property: string, allowed: string[], rejected: string[]];
+
+const table: Row[] = [
+  ["display", ["block", "inline-block", "none", "table-cell", "BLOCK"], [
+    "flex",
+    "grid",
+    "contents",
+    "block !important",
+  ]],
+  ["width", ["120px", "80%", "0", "auto", "21cm", "1.5in"], ["-10px", "10em", "50vw", "calc(100% - 1px)", "10"]],
+  ["height", ["29.7cm", "100%", "auto"], ["10rem", "fit-content"]],
+  ["margin", ["0", "8pt", "0 auto", "1px 2px 3px 4px", "-4mm 0"], ["1px 2px 3px 4px 5px", "1ch", "inherit"]],
+  ["margin-top", ["-2mm", "5%", "auto"], ["2em", "var(--gap)"]],
+  ["padding", ["4px", "2mm 4mm", "10%"], ["-1px", "1px auto"]],
+  ["padding-left", ["20px"], ["auto", "-20px"]],
+  ["box-sizing", ["border-box", "content-box"], ["padding-box"]],
+  ["border", ["1px solid #ccc", "none", "thin dashed black", "0", "2pt double rgb(0, 0, 0)"], [
+    "1px solid solid",
+    "1px solid red blue",
+    "1em solid",
+    "url(x) 1px",
+  ]],
+  ["border-collapse", ["collapse", "separate"], ["fixed"]],
+  ["font-family", [
+    "serif",
+    "'Hiragino Mincho ProN', serif",
+    "'Noto Sans JP', monospace",
+    "Arial, Helvetica, sans-serif",
+    "Yu Gothic",
+  ], ["'Comic Sans MS', cursive", "'serif'", "MaliciousFont", "Arial Black"]],
+  ["font-size", ["10.5pt", "14px", "120%", "small", "larger"], ["1.2em", "-1px", "huge"]],
+  ["font-weight", ["bold", "normal", "700", "350"], ["heavy", "0", "1001"]],
+  ["line-height", ["1.6", "normal", "14pt", "150%"], ["-1", "2rem"]],
+  ["text-align", ["left", "center", "justify", "end"], ["middle"]],
+  ["white-space", ["nowrap", "pre-wrap"], ["wrap"]],
+  ["letter-spacing", ["0.5pt", "-0.2mm", "normal"], ["0.1em", "5%"]],
+  ["color", ["red", "#333", "#336699cc", "rgb(10, 20, 30)", "rgba(0 0 0 / 50%)", "hsl(120, 50%, 50%)", "navy"], [
+    "#12",
+    "reddish",
+    "expression(alert(1))",
+  ]],
+  ["background-color", ["#fff", "whitesmoke"], ["url(https://tracker.example/p.gif)", "linear-gradient(red, blue)"]],
+  ["page-break-before", ["always", "avoid", "auto"], ["never"]],
+  ["page-break-after", ["always", "left"], ["page"]],
+  ["page-break-inside", ["avoid", "auto"], ["always"]],
+  ["size", ["A4", "a4 landscape", "letter portrait", "210mm 297mm", "auto", "landscape"], ["A4 sideways", "huge"]],
+];
+
+describe("CSS value grammar", () => {
+  describe.each(table)("%s", (property, allowed, rejected) => {
+    it.each(allowed)(`keeps ${property}: %s`, (value) => {
+      expect(sanitize(`${property}: ${value}`)).toBe(`${property}:${value}`);
+    });
+
+    it.each(rejected)(`removes ${property}: %s`, (value) => {
+      expect(sanitize(`${property}: ${value}`)).toBeUndefined();
+    });
+  });
+
+  it("keeps table-layout style keywords that are valid for the property", () => {
+    expect(sanitize("border-collapse: collapse; width: 100%")).toBe("border-collapse:collapse; width:100%");
+  });
+
+  it("still applies the property allow-list", () => {
+    expect(sanitize("position: absolute; float: left; color: red")).toBe("color:red");
+  });
+
+  it("accepts fonts added by a policy and rejects denied ones", () => {
+    const policy: SanitizePolicy = { allowFontFamilies: ["Corporate Sans"], denyFontFamilies: ["Arial"] };
+
+    expect(sanitize("font-family: 'Corporate Sans', sans-serif", policy)).toBe(
+      "font-family:'Corporate Sans', sans-serif"
+    );
+    expect(sanitize("font-family: Arial", policy)).toBeUndefined();
+  });
+
+  it("checks values of properties added by a policy against the banned patterns only", () => {
+    const policy: SanitizePolicy = { allowCssProperties: ["text-decoration"] };
+
+    expect(sanitize("text-decoration: underline", policy)).toBe("text-decoration:underline");
+    expect(sanitize("text-decoration: underline; text-decoration: var(--x)", policy)).toBe(
+      "text-decoration:underline"
+    );
+  });
+
+  it("defers interpolated values to render time", () => {
+    const template = '<p style="width: {{ w:string }}; color: {{ c:string }}">x</p>';
+
+    expect(render(template, { w: "50%", c: "navy" })).toContain('style="width:50%; color:navy"');
+    expect(render(template, { w: "50vw", c: "#zzz" })).toBe("<!doctype html><html><p>x</p></html>");
+  });
+});
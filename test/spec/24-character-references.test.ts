@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { compile, parseDslAst, render } from "../../src/index.js";
+import type { ElementNode, SanitizeDiagnostic, TextNode } from "../../src/index.js";
+
+function firstElement(html: string): ElementNode {
+  return parseDslAst(html).children[0] as ElementNode;
+}
+
+function literalText(html: string): string {
+  const text = firstElement(html).children[0] as TextNode;
+  return text.segments.map((segment) => (segment.kind === "literal" ? segment.value : "")).join("");
+}
+
+describe("character references in text", () => {
+  it.each([
+    ["&amp;", "&"],
+    ["&lt;b&gt;", "<b>"],
+    ["&nbsp;", "\u00a0"],
+    ["&copy; 2024", "© 2024"],
+    ["&NotEqualTilde;", "≂̸"],
+    ["&#x3000;", "\u3000"],
+    ["&#65;&#X42;", "AB"],
+    ["&#128512;", "\u{1f600}"],
+    ["&#x80;", "€"],
+    ["&#0;&#xD800;&#x110000;", "\ufffd\ufffd\ufffd"],
+    ["&amp &lt", "& <"],
+    ["&notit;", "¬it;"],
+    ["&bogus; & &#; &#xZ;", "&bogus; & &#; &#xZ;"],
+  ])("decodes %j", (source, expected) => {
+    expect(literalText(`<p>${source}</p>`)).toBe(expected);
+  });
+
+  it("escapes decoded characters once when rendering", () => {
+    const template = "<p>Tom &amp; Jerry&nbsp;&lt;3 {{ note:string }}</p>";
+    const expected = "<!doctype html><html><p>Tom &amp; Jerry\u00a0&lt;3 a &amp; b</p></html>";
+
+    expect(render(template, { note: "a & b" })).toBe(expected);
+    expect(compile(template).render({ note: "a & b" })).toBe(expected);
+  });
+
+  it("keeps non-breaking spaces that stand alone between tags", () => {
+    expect(render("<td>&nbsp;</td>", {})).toBe("<!doctype html><html><td>\u00a0</td></html>");
+  });
+
+  it("leaves interpolations as written", () => {
+    const segments = firstElement('<p>{{ name:string | default:"&amp;" }}</p>').children[0];
+
+    expect(segments).toMatchObject({ segments: [{ kind: "interpolation", path: "name" }] });
+    expect(render('<p>{{ name:string | default:"&amp;" }}</p>', {})).toContain("<p>&amp;amp;</p>");
+  });
+});
+
+describe("character references in attributes", () => {
+  it("decodes static values", () => {
+    expect(firstElement('<div class="a&amp;b &#x41;">x</div>').attributes.class).toBe("a&b A");
+  });
+
+  it("keeps legacy references followed by = or an alphanumeric", () => {
+    expect(firstElement('<div class="?a=1&copy=2&notit &amp">x</div>').attributes.class).toBe("?a=1&copy=2&notit &");
+  });
+
+  it("decodes control attributes before evaluating them", () => {
+    const template = '<p data-if="count &gt; 2">many</p>';
+
+    expect(render(template, { count: 3 })).toContain("<p>many</p>");
+    expect(render(template, { count: 1 })).not.toContain("many");
+  });
+
+  it("decodes around interpolations and renders them", () => {
+    const template = '<div class="{{ a:string }}&#32;&amp;&#32;{{ b:string }}">x</div>';
+
+    expect(firstElement(template).attributes.class).toBe("{{ a:string }} & {{ b:string }}");
+    expect(render(template, { a: "x", b: "y" })).toContain('<div class="x &amp; y">');
+  });
+
+  it("sanitizes the decoded style", () => {
+    const diagnostics: SanitizeDiagnostic[] = [];
+    const html = '<p style="color: red; background-color: &#117;rl(https://tracker.example)">x</p>';
+    const element = parseDslAst(html, { onDiagnostic: (d) => diagnostics.push(d) }).children[0] as ElementNode;
+
+    expect(element.attributes.style).toBe("color:red");
+    expect(diagnostics).toHaveLength(1);
+    const { start, end } = diagnostics[0].location;
+    expect(html.slice(start.offset, end.offset)).toBe("color: red; background-color: &#117;rl(https://tracker.example)");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { extractSchema, parseDslAst, render } from "../../src/index.js";
+import type { DslNode, ElementNode, SanitizeDiagnostic } from "../../src/index.js";
+
+/** Compact tree shape, e.g. `ul[li[a] li[b]]`; interpolations print as `{path}`. */
+function outline(node: DslNode): string {
+  if (node.type === "text") {
+    return node.segments.map((s) => (s.kind === "literal" ? s.value.trim() : `{${s.path}}`)).join("");
+  }
+  const children = node.children.map(outline).filter(Boolean);
+  return children.length > 0 ? `${node.tagName}[${children.join(" ")}]` : node.tagName;
+}
+
+function body(html: string): string {
+  return parseDslAst(html).children.map(outline).join(" ");
+}
+
+describe("tags and attributes", () => {
+  it("reads > and < inside quoted attribute values", () => {
+    const root = parseDslAst(`<p data-if="a > b && c < d" class='x>y'>ok</p>`);
+    const p = root.children[0] as ElementNode;
+
+    expect(p.attributes).toStrictEqual({ "data-if": "a > b && c < d", class: "x>y" });
+    expect(outline(p)).toBe("p[ok]");
+  });
+
+  it("keeps < and > inside interpolations in text", () => {
+    const html = '<p>{{ code:string (pattern:"^<[a-z]+>$") }} and {{ n:integer (min:0) }}</p>';
+
+    expect(body(html)).toBe("p[{code}and{n}]");
+    expect(extractSchema(html).properties).toMatchObject({ code: { pattern: "^<[a-z]+>$" } });
+  });
+
+  it("reads unquoted values and valueless attributes", () => {
+    const td = parseDslAst("<td colspan=2 id class=a-b>x</td>").children[0] as ElementNode;
+
+    expect(td.attributes).toStrictEqual({ colspan: "2", id: "", class: "a-b" });
+  });
+
+  it("keeps the first of duplicated attributes", () => {
+    const p = parseDslAst('<p class="a" CLASS="b">x</p>').children[0] as ElementNode;
+
+    expect(p.attributes).toStrictEqual({ class: "a" });
+  });
+
+  it("treats < that does not start a tag as text", () => {
+    expect(body("<p>1 < 2 and 3 <= 4</p>")).toBe("p[1 < 2 and 3 <= 4]");
+  });
+
+  it("drops a tag left open at the end of the input", () => {
+    expect(body('<div>x</div><p class="a')).toBe("div[x]");
+  });
+});
+
+describe("markup declarations", () => {
+  it("ignores DOCTYPE and comments", () => {
+    const html = "<!DOCTYPE html>\n<!-- note --><html><!--><!---><body><?xml x?><p>x</p></body></html>";
+
+    expect(outline(parseDslAst(html))).toBe("html[body[p[x]]]");
+  });
+
+  it("keeps CDATA content as literal text", () => {
+    const html = "<p><![CDATA[a < b && {{ not.an:interpolation }}]]></p>";
+
+    expect(body(html)).toBe("p[a < b && {{ not.an:interpolation }}]");
+    expect(render(html, {})).toBe("<!doctype html><html><p>a &lt; b &amp;&amp; {{ not.an:interpolation }}</p></html>");
+    expect(extractSchema(html).properties).toStrictEqual({});
+  });
+
+  it("does not read markup inside script or style content", () => {
+    const diagnostics: SanitizeDiagnostic[] = [];
+    const html = '<div><script>if (a < b) document.write("</div><p>leak</p>")</script><p>ok</p></div>';
+    const root = parseDslAst(html, { onDiagnostic: (d) => diagnostics.push(d) });
+
+    expect(root.children.map(outline)).toStrictEqual(["div[p[ok]]"]);
+    expect(diagnostics.map((d) => d.tagName)).toStrictEqual(["script"]);
+  });
+});
+
+describe("disallowed elements", () => {
+  it("drops a disallowed void element without its siblings", () => {
+    expect(body('<div><input type="text"><p>kept</p></div>')).toBe("div[p[kept]]");
+  });
+});
+
+describe("implied end tags", () => {
+  it("closes <p> at the next block", () => {
+    expect(body("<div><p>one<p>two<div>three</div></div>")).toBe("div[p[one] p[two] div[three]]");
+  });
+
+  it("closes <li> at the next item", () => {
+    expect(body("<ul><li>a<li>b<ol><li>c<li>d</ol><li>e</ul>")).toBe("ul[li[a] li[b ol[li[c] li[d]]] li[e]]");
+  });
+
+  it("closes cells and rows", () => {
+    const html = "<table><tbody><tr><td>a<td>b<tr><th>c<td>d</tbody></table><p>after</p>";
+
+    expect(body(html)).toBe("table[tbody[tr[td[a] td[b]] tr[th[c] td[d]]]] p[after]");
+  });
+
+  it("does not close elements outside the current table", () => {
+    expect(body("<ul><li><table><tr><td><li>x</td></tr></table></li></ul>")).toBe(
+      "ul[li[table[tr[td[li[x]]]]]]"
+    );
+  });
+
+  it("ignores end tags for elements that are not in scope", () => {
+    expect(body("<div><table><tr><td>a</div>b</td></tr></table>c</div>")).toBe("div[table[tr[td[a b]]] c]");
+  });
+
+  it("ends implicitly closed elements where the next element starts", () => {
+    const html = "<ul><li>a<li>b</ul>";
+    const [first] = (parseDslAst(html).children[0] as ElementNode).children as ElementNode[];
+
+    expect(html.slice(first.location?.start.offset, first.location?.end.offset)).toBe("<li>a");
+  });
+
+  it("drops the content of a disallowed element up to its implied end", () => {
+    const diagnostics: SanitizeDiagnostic[] = [];
+    const root = parseDslAst("<ul><li>a<li>b</ul>", {
+      policy: { denyTags: ["li"] },
+      onDiagnostic: (d) => diagnostics.push(d),
+    });
+
+    expect(outline(root)).toBe("html[ul]");
+    expect(diagnostics).toHaveLength(2);
+  });
+
+  it("renders loops over implicitly closed rows", () => {
+    const html = '<table><tr data-repeat="rows as row"><td>{{ row.a:string }}<td>{{ row.b:string }}</table>';
+
+    expect(render(html, { rows: [{ a: "1", b: "2" }] })).toBe(
+      "<!doctype html><html><table><tr><td>1</td><td>2</td></tr></table></html>"
+    );
+  });
+});
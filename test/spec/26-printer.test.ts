@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { parseDslAst, printDsl, DslSyntaxError } from "../../src/index.js";
+import type { DslNode, ElementNode, TextNode } from "../../src/index.js";
+
+function withoutLocations(node: DslNode): unknown {
+  return JSON.parse(JSON.stringify(node, (key, value) => (key === "location" ? undefined : value)));
+}
+
+function expectRoundTrip(source: string): string {
+  const ast = parseDslAst(source);
+  const printed = printDsl(ast);
+  expect(withoutLocations(parseDslAst(printed))).toStrictEqual(withoutLocations(ast));
+  expect(printDsl(parseDslAst(printed))).toBe(printed);
+  return printed;
+}
+
+describe("printDsl", () => {
+  it("indents element-only content and keeps mixed content on one line", () => {
+    const printed = expectRoundTrip(
+      '<html><body><ul data-if="items.length > 0"><li data-repeat="items as item">' +
+        "Name: <strong>{{ item.name:string }}</strong></li></ul><br></body></html>"
+    );
+
+    expect(printed).toBe(
+      [
+        "<html>",
+        "  <body>",
+        '    <ul data-if="items.length > 0">',
+        '      <li data-repeat="items as item">Name: <strong>{{ item.name:string }}</strong></li>',
+        "    </ul>",
+        "    <br>",
+        "  </body>",
+        "</html>",
+      ].join("\n")
+    );
+  });
+
+  it("prints interpolations canonically", () => {
+    const printed = expectRoundTrip(
+      "<p>{{item.price : integer?(min:0,exMax: 10000)|comma}} {{ code:string(enum:A,'B\"',pattern:^[A-Z]+$) }}" +
+        " {{ due:date | date-format:YYYY/MM/DD | default:'n/a, soon' }} {{ ok:boolean (fixed:true) }}" +
+        " {{ name:string (min:1, max:20) | default:\" \" }}</p>"
+    );
+
+    expect(printed).toBe(
+      "<html>\n  <p>{{ item.price:integer? (min:0, exMax:10000) | comma }} " +
+        "{{ code:string (enum:\"A\",'B\"', pattern:\"^[A-Z]+$\") }} " +
+        '{{ due:date | date-format:YYYY/MM/DD | default:"n/a, soon" }} {{ ok:boolean (fixed:true) }} ' +
+        '{{ name:string (min:1, max:20) | default:" " }}</p>\n</html>'
+    );
+  });
+
+  it("escapes text and attribute values", () => {
+    const printed = expectRoundTrip(
+      `<p class='a"b &amp; c' id="{{ t:string | default:'x' }}">` +
+        "&lt;tag&gt; &amp; &#123;{ literal }} <![CDATA[{{ raw }}]]></p>"
+    );
+
+    expect(printed).toContain(`class="a&quot;b &amp; c" id="{{ t:string | default:'x' }}"`);
+    expect(printed).toContain("&lt;tag&gt; &amp; &#123;{ literal }} <!---->&#123;{ raw }}");
+  });
+
+  it("keeps whitespace-only and adjacent text nodes", () => {
+    const ast = parseDslAst("<p><![CDATA[ ]]><span>x</span>a<!-- -->b</p>");
+    const printed = printDsl(ast);
+
+    expect(printed).toBe("<html>\n  <p>&#32;<span>x</span>a<!---->b</p>\n</html>");
+    expect(withoutLocations(parseDslAst(printed))).toStrictEqual(withoutLocations(ast));
+  });
+
+  it("prints inline without indentation and sorts attributes on request", () => {
+    const ast = parseDslAst(
+      '<div style="color:red" id="main" class="box"><p data-if="a">x</p><p data-else>y</p></div>'
+    );
+
+    expect(printDsl(ast, { indent: false, attributeOrder: "alphabetical" })).toBe(
+      '<html><div class="box" id="main" style="color:red"><p data-if="a">x</p><p data-else>y</p></div></html>'
+    );
+    expect(printDsl(ast.children[0], { indent: "\t", attributeOrder: (a, b) => b.localeCompare(a) })).toBe(
+      '<div style="color:red" id="main" class="box">\n\t<p data-if="a">x</p>\n\t<p data-else>y</p>\n</div>'
+    );
+  });
+
+  it("prints a single text node", () => {
+    const text = (parseDslAst("<p>a &lt; {{ n:number | fixed:2 }}</p>").children[0] as ElementNode)
+      .children[0] as TextNode;
+
+    expect(printDsl(text)).toBe("a &lt; {{ n:number | fixed:2 }}");
+  });
+
+  it("round-trips the sample templates", () => {
+    const sample = fileURLToPath(new URL("../fixtures/samples/transmittal-letter.html", import.meta.url));
+
+    expectRoundTrip(readFileSync(sample, "utf-8"));
+  });
+
+  it("rejects values the DSL cannot express", () => {
+    const ast = parseDslAst('<p>{{ s:string (pattern:"x") }}</p>');
+    const segment = ((ast.children[0] as ElementNode).children[0] as TextNode).segments[0];
+    if (segment.kind !== "interpolation") throw new Error("expected an interpolation");
+
+    segment.constraints = [{ kind: "pattern", value: `a"b'c` }];
+    expect(() => printDsl(ast)).toThrow(DslSyntaxError);
+    segment.constraints = [{ kind: "pattern", value: "a}}b" }];
+    expect(() => printDsl(ast)).toThrow(/may not contain "}}"/);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { DslSyntaxError, parseDslAst, printDsl, render, traverseDsl } from "../../src/index.js";
+import type { ElementNode, InterpolationSegment, TextNode } from "../../src/index.js";
+
+function text(value: string): TextNode {
+  return { type: "text", segments: [{ kind: "literal", value }] };
+}
+
+describe("traversal", () => {
+  it("calls enter and leave hooks in document order", () => {
+    const events: string[] = [];
+    const root = parseDslAst("<div><p>a {{ x:string }}</p><br></div>");
+
+    traverseDsl(root, {
+      element: {
+        enter: (node) => events.push(`enter ${node.tagName}`),
+        leave: (node) => events.push(`leave ${node.tagName}`),
+      },
+      text: (node) => events.push(`text ${node.segments.length}`),
+      interpolation: { leave: (segment) => events.push(`{${segment.path}}`) },
+    });
+
+    expect(events).toStrictEqual([
+      "enter html",
+      "enter div",
+      "enter p",
+      "text 2",
+      "{x}",
+      "leave p",
+      "enter br",
+      "leave br",
+      "leave div",
+      "leave html",
+    ]);
+  });
+
+  it("gives the parent, ancestors and index", () => {
+    const seen: string[] = [];
+    traverseDsl(parseDslAst("<ul><li>a</li><li><strong>b</strong></li></ul>"), {
+      element: (node, { parent, ancestors, index }) => {
+        seen.push(`${ancestors.map((a) => a.tagName).join("/")} ${parent?.tagName ?? "-"}[${index}] ${node.tagName}`);
+      },
+    });
+
+    expect(seen).toStrictEqual([
+      " -[0] html",
+      "html html[0] ul",
+      "html/ul ul[0] li",
+      "html/ul ul[1] li",
+      "html/ul/li li[0] strong",
+    ]);
+  });
+
+  it("skips the children of an element", () => {
+    const tags: string[] = [];
+    traverseDsl(parseDslAst("<div><section><p>x</p></section><p>y</p></div>"), {
+      element: (node, context) => {
+        tags.push(node.tagName);
+        if (node.tagName === "section") context.skip();
+      },
+    });
+
+    expect(tags).toStrictEqual(["html", "div", "section", "p"]);
+  });
+});
+
+describe("alias scope", () => {
+  it("resolves data-repeat and data-page aliases", () => {
+    const html =
+      '<section data-page="pages as page"><table><tr data-repeat="page.rows as row">' +
+      "<td>{{ row.name:string }} {{ page.title:string }} {{ total:number }}</td></tr></table></section>";
+    const paths: string[] = [];
+    let rowAliases: Readonly<Record<string, string>> = {};
+
+    traverseDsl(parseDslAst(html), {
+      element: (node, context) => {
+        if (node.tagName === "tr") rowAliases = context.aliases;
+      },
+      interpolation: (segment, context) => paths.push(context.resolvePath(segment.path)),
+    });
+
+    expect(rowAliases).toStrictEqual({ page: "pages[]", row: "pages[].rows[]" });
+    expect(paths).toStrictEqual(["pages[].rows[].name", "pages[].title", "total"]);
+  });
+
+  it("does not leak aliases to siblings", () => {
+    const scopes: Record<string, unknown>[] = [];
+    traverseDsl(parseDslAst('<div><ul data-repeat="items as item"><li>x</li></ul><p>y</p></div>'), {
+      element: (node, { aliases }) => {
+        if (node.tagName === "li" || node.tagName === "p") scopes.push(aliases);
+      },
+    });
+
+    expect(scopes).toStrictEqual([{ item: "items[]" }, {}]);
+  });
+});
+
+describe("transforms", () => {
+  it("replaces, removes and inserts nodes without visiting them", () => {
+    const root = parseDslAst("<div><p>a</p><hr><p>b</p><span>c</span></div>");
+    const visited: string[] = [];
+
+    traverseDsl(root, {
+      element: (node, context) => {
+        visited.push(node.tagName);
+        if (node.tagName === "hr") context.remove();
+        if (node.tagName === "span") context.replaceWith({ ...node, tagName: "em" }, text("!"));
+        if (node.tagName === "p") {
+          context.insertBefore({ type: "element", tagName: "i", attributes: {}, children: [] });
+          context.insertAfter(text(";"));
+        }
+      },
+    });
+
+    expect(visited).toStrictEqual(["html", "div", "p", "hr", "p", "span"]);
+    expect(printDsl(root.children[0], { indent: false })).toBe(
+      "<div><i></i><p>a</p>;<i></i><p>b</p>;<em>c</em>!</div>"
+    );
+  });
+
+  it("does not call leave for a replaced node", () => {
+    const left: string[] = [];
+    traverseDsl(parseDslAst("<div><strong>x</strong></div>"), {
+      element: {
+        enter: (node, context) => {
+          if (node.tagName === "strong") context.replaceWith(text("x"));
+        },
+        leave: (node) => left.push(node.tagName),
+      },
+    });
+
+    expect(left).toStrictEqual(["div", "html"]);
+  });
+
+  it("refuses to replace the root with a located DslSyntaxError", () => {
+    expect(() => traverseDsl(parseDslAst("<p>x</p>"), { element: (_, context) => context.remove() })).toThrow(
+      DslSyntaxError
+    );
+
+    const root = parseDslAst('\n<html lang="en"><body><p>x</p></body></html>');
+    expect(() => traverseDsl(root, { element: (_, context) => context.insertAfter(text("x")) })).toThrow(
+      "The root element cannot be replaced, removed or given siblings (line 2, column 1)"
+    );
+  });
+
+  it("renames paths in text and attribute interpolations", () => {
+    const root = parseDslAst(
+      '<ul data-repeat="people as person"><li class="hi-{{ person.name:string }}">' +
+        "{{ person.name:string (max:40) }} ({{ person.age:integer? }})</li></ul>"
+    );
+    const attributes: string[] = [];
+
+    traverseDsl(root, {
+      interpolation: (segment, context) => {
+        if (context.attribute) attributes.push(context.attribute);
+        if (context.resolvePath(segment.path) === "people[].name") {
+          context.replaceWith({ ...segment, path: "person.fullName" });
+        }
+      },
+    });
+
+    expect(attributes).toStrictEqual(["class"]);
+    expect(printDsl(root.children[0], { indent: false })).toBe(
+      '<ul data-repeat="people as person"><li class="hi-{{ person.fullName:string }}">' +
+        "{{ person.fullName:string (max:40) }} ({{ person.age:integer? }})</li></ul>"
+    );
+  });
+
+  it("removes and splits interpolations", () => {
+    const root = parseDslAst('<p class="a {{ hidden:string }}">{{ first:string }} {{ last:string }}</p>');
+
+    traverseDsl(root, {
+      interpolation: (segment: InterpolationSegment, context) => {
+        if (segment.path === "hidden") context.remove();
+        if (segment.path === "first") context.replaceWith({ kind: "literal", value: "Dr. " }, segment);
+      },
+    });
+
+    const p = root.children[0] as ElementNode;
+    expect(p.attributes.class).toBe("a ");
+    expect(render(printDsl(p), { first: "Ada", last: "Lovelace" })).toContain('<p class="a ">Dr. Ada Lovelace</p>');
+  });
+});
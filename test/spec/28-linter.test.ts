@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { extractSchema, lint, lintAst, parseDslAst, traverseDsl, DslSyntaxError } from "../../src/index.js";
+import type { LintDiagnostic } from "../../src/index.js";
+
+function rules(diagnostics: LintDiagnostic[]): string[] {
+  return diagnostics.map((d) => `${d.severity} ${d.rule} ${d.path ?? "-"}`);
+}
+
+describe("lint", () => {
+  it("reports nothing for a clean template", () => {
+    const html =
+      '<html><head><meta name="semantic-description:items[].name" content="Item name"></head>' +
+      '<body><p data-if="note != null">{{ note:string? }}</p><table><tr data-repeat="items as item" ' +
+      'data-max-rows="10" data-fixed-rows="5"><td>{{ item.name:string }}</td>' +
+      '<td>{{ item.shipped:date | date-format:"YYYY/MM/DD" }}</td></tr></table></body></html>';
+
+    expect(lint(html)).toStrictEqual([]);
+  });
+
+  it("reports a path declared with conflicting types, naming the first declaration", () => {
+    const html = "<div>\n<p>{{ total:integer }}</p>\n<p>{{ total:string }}</p>\n<p>{{ total:integer? }}</p>\n</div>";
+    const diagnostics = lint(html);
+
+    expect(rules(diagnostics)).toStrictEqual(["error conflicting-types total", "error conflicting-types total"]);
+    expect(diagnostics[0].message).toBe(
+      'Conflicting declarations of "total": it is declared as string here but as integer at line 2, column 4'
+    );
+    expect(diagnostics[0].location?.start.line).toBe(3);
+  });
+
+  it("compares paths after resolving aliases", () => {
+    const html =
+      '<ul data-repeat="items as item"><li>{{ item.qty:integer }}</li></ul>' +
+      '<ol data-repeat="items as row"><li>{{ row.qty:number }}</li></ol>';
+
+    expect(rules(lint(html))).toStrictEqual(["error conflicting-types items.qty"]);
+  });
+
+  it("reports the conflicts extractSchema throws for", () => {
+    const html =
+      "<p>{{ qty:integer (min:1) }} {{ qty:integer (min:0) }}</p><p>{{ customer:string }}</p>" +
+      '<p>{{ customer.name:string }}</p><div data-switch="plan"><p data-case="pro">P</p></div>' +
+      "<p>{{ plan:string (enum:basic) }}</p>";
+    const diagnostics = lint(html);
+
+    expect(rules(diagnostics)).toStrictEqual([
+      "error conflicting-types qty",
+      "error conflicting-types customer",
+      "error conflicting-types plan",
+    ]);
+    expect(() => extractSchema(html)).toThrow(`${diagnostics[0].message} (line 1, column 30)`);
+  });
+
+  it("reports row limits without data-repeat and invalid row counts", () => {
+    const html =
+      '<table><tbody data-fixed-rows="3"><tr data-repeat="rows as row" data-max-rows="ten">' +
+      '<td data-max-rows="0">{{ row.a:string }}</td></tr></tbody></table>' +
+      '<div data-page="pages as page" data-max-rows="1">{{ page.no:integer }}</div>';
+
+    expect(lint(html).map((d) => d.message)).toStrictEqual([
+      "data-fixed-rows has no effect without data-repeat or data-page",
+      'data-max-rows must be a positive integer, got "ten"',
+      "data-max-rows has no effect without data-repeat or data-page",
+      'data-max-rows must be a positive integer, got "0"',
+    ]);
+  });
+
+  it("reports semantic meta tags that match no interpolation", () => {
+    const html =
+      '<html><head><meta name="semantic-description:customer.name" content="x">' +
+      '<meta name="semantic-examples:customer.nmae" content="a|b"><meta name="timezone" content="UTC"></head>' +
+      "<body><p>{{ customer.name:string }}</p></body></html>";
+
+    expect(rules(lint(html))).toStrictEqual(["warning unused-semantic-meta customer.nmae"]);
+  });
+
+  it("reports nullable fields used in data-if unless compared with null", () => {
+    const html =
+      '<div data-repeat="items as item"><p data-if="item.note && !(item.flag == null)">{{ item.note:string? }}</p>' +
+      '<p data-if="item.flag == null">x</p><p data-else-if="item.count > 1">y</p>' +
+      "<span>{{ item.flag:boolean? }} {{ item.count:integer }}</span></div>";
+
+    expect(rules(lint(html))).toStrictEqual(["warning nullable-condition items[].note"]);
+  });
+
+  it("reports date-format on non-date types instead of throwing", () => {
+    const html = `<div class="{{ code:string | date-format:'YYYY' }}">\n<p>{{ n:integer | date-format:"YYYY" }}</p></div>`;
+    const diagnostics = lint(html);
+
+    expect(rules(diagnostics)).toStrictEqual(["error date-format-type code", "error date-format-type n"]);
+    expect(diagnostics[1].message).toBe(
+      'date-format is applied to "n", which is declared as integer; use date, time or datetime'
+    );
+    expect(diagnostics[1].location?.start).toMatchObject({ line: 2, column: 4 });
+    expect(() => parseDslAst(html)).toThrow('Filter "date-format" is not allowed for type "string"');
+  });
+
+  it("reports date-format on non-date types in transformed ASTs", () => {
+    // The parser already rejects this in source; a transform can still produce it.
+    const ast = parseDslAst('<p>{{ due:date | date-format:"YYYY" }} {{ at:datetime | date-format:"HH:mm" }}</p>');
+    traverseDsl(ast, {
+      interpolation: (segment, context) => {
+        if (segment.path === "due") context.replaceWith({ ...segment, dataType: "string" });
+      },
+    });
+    const diagnostics = lintAst(ast);
+
+    expect(rules(diagnostics)).toStrictEqual(["error date-format-type due"]);
+    expect(diagnostics[0].location?.start.offset).toBe(3);
+  });
+
+  it("checks interpolations in attribute values", () => {
+    const html = '<div class="{{ state:integer }}">{{ state:string }}</div>';
+
+    expect(rules(lint(html))).toStrictEqual(["error conflicting-types state"]);
+  });
+
+  it("changes severities and turns rules off", () => {
+    const html = '<p data-fixed-rows="x" data-if="a">{{ a:boolean? }}</p>';
+    const config = { rules: { "invalid-row-count": "warning", "rows-without-repeat": "off" } } as const;
+
+    expect(rules(lint(html, config))).toStrictEqual(["warning invalid-row-count -", "warning nullable-condition a"]);
+  });
+
+  it("throws for templates that do not parse", () => {
+    expect(() => lint('<p data-if="a &&">x</p>')).toThrow(DslSyntaxError);
+  });
+});
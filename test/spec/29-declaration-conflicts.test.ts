@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { compile, extractSchema, SchemaExtractionError } from "../../src/index.js";
+
+function conflict(html: string, options = {}): SchemaExtractionError {
+  try {
+    extractSchema(html, options);
+  } catch (err) {
+    expect(err).toBeInstanceOf(SchemaExtractionError);
+    return err as SchemaExtractionError;
+  }
+  throw new Error("expected a SchemaExtractionError");
+}
+
+describe("conflicting declarations", () => {
+  it("reports a type conflict with both locations", () => {
+    const err = conflict("<header>{{ total:integer }}</header>\n<footer>{{ total:string }}</footer>");
+
+    expect(err.message).toBe(
+      'Conflicting declarations of "total": it is declared as string here but as integer at line 1, column 9 ' +
+        "(line 2, column 9)"
+    );
+    expect(err.path).toBe("total");
+    expect(err.location?.start.line).toBe(2);
+  });
+
+  it("reports nullability and constraint conflicts", () => {
+    expect(conflict("<p>{{ note:string }}</p><p>{{ note:string? }}</p>").message).toContain(
+      "declared as string? here but as string"
+    );
+    expect(conflict("<p>{{ n:integer (min:0) }}</p><p>{{ n:integer (min:1) }}</p>").message).toContain(
+      "declared as integer (min:1) here but as integer (min:0)"
+    );
+  });
+
+  it("accepts repeated identical declarations, including through aliases", () => {
+    const html =
+      '<ul data-repeat="items as item"><li>{{ item.qty:integer (min:1) }}</li></ul>' +
+      '<ol data-repeat="items as row"><li>{{ row.qty:integer (min:1) }}</li></ol>';
+
+    expect(extractSchema(html).properties).toStrictEqual({
+      items: {
+        type: "array",
+        items: { type: "object", properties: { qty: { type: "integer", minimum: 1 } }, required: ["qty"] },
+      },
+    });
+  });
+
+  it("reports a path used both as a scalar and as an object", () => {
+    expect(conflict("<p>{{ customer:string }}</p><p>{{ customer.name:string }}</p>").message).toContain(
+      '"customer": it is used as an object here but declared as string'
+    );
+    expect(conflict("<p>{{ customer.name:string }}</p><p>{{ customer:string }}</p>").message).toContain(
+      '"customer": it is declared as string here but used as an object'
+    );
+    expect(conflict('<p>{{ items:string }}</p><ul data-repeat="items as item"><li>x</li></ul>').message).toContain(
+      "declared as an array here but as string"
+    );
+    const html = '<ul data-repeat="items as item"><li>x</li></ul><p>{{ items.count:integer }}</p>';
+    expect(conflict(html).message).toContain("used as an object here but declared as an array");
+  });
+
+  it("keeps a data-if truthiness check on an object", () => {
+    const html = '<div data-if="customer"><p>{{ customer.name:string }}</p></div>';
+
+    expect(extractSchema(html).properties).toStrictEqual({
+      customer: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+    });
+  });
+
+  it("throws from compile", () => {
+    expect(() => compile("<p>{{ a:integer }}{{ a:number }}</p>").schema()).toThrow(SchemaExtractionError);
+  });
+});
+
+describe("conflicts: merge", () => {
+  it("intersects ranges, unions enums and widens nullability", () => {
+    const html =
+      "<p>{{ n:integer (min:0, max:10) }}</p><p>{{ n:integer? (min:2, max:20, step:2) }}</p>" +
+      '<p>{{ s:string (enum:"a","b", max:5) }} {{ s:string (enum:"b","c", min:1, max:3) }}</p>';
+
+    expect(extractSchema(html, { conflicts: "merge" }).properties).toStrictEqual({
+      n: { type: ["integer", "null"], minimum: 2, maximum: 10, multipleOf: 2 },
+      s: { type: "string", enum: ["a", "b", "c"], maxLength: 3, minLength: 1 },
+    });
+  });
+
+  it("makes the field optional when any declaration is nullable", () => {
+    for (const html of [
+      "<p>{{ a:string? }}</p><p>{{ a:string }}</p>{{ b:string }}",
+      "<p>{{ a:string }}</p><p>{{ a:string? }}</p>{{ b:string }}",
+    ]) {
+      const schema = extractSchema(html, { conflicts: "merge" });
+      expect(schema.properties.a).toStrictEqual({ type: ["string", "null"] });
+      expect(schema.required).toStrictEqual(["b"]);
+    }
+
+    const nested = extractSchema(
+      '<p data-repeat="rows as row">{{ row.total:integer }} {{ row.total:integer? }} {{ row.doc.id:string }}' +
+        "{{ row.doc.id:string? }}</p>",
+      { conflicts: "merge" }
+    );
+    expect(nested.properties.rows.items.required).toStrictEqual(["doc"]);
+    expect(nested.properties.rows.items.properties.doc.required).toStrictEqual([]);
+  });
+
+  it("still rejects type conflicts and constraints that cannot be merged", () => {
+    expect(conflict("<p>{{ a:integer }}{{ a:number }}</p>", { conflicts: "merge" }).message).toContain(
+      "declared as number here but as integer"
+    );
+    expect(
+      conflict('<p>{{ a:string (pattern:"^a") }}{{ a:string (pattern:"^b") }}</p>', { conflicts: "merge" }).message
+    ).toBe('Conflicting declarations of "a": pattern:^a and pattern:^b cannot be merged (line 1, column 33)');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkData,
+  compile,
+  extractSchema,
+  extractSchemaFromAst,
+  parseDslAst,
+  renderAst,
+  SchemaExtractionError,
+} from "../../src/index.js";
+
+describe("schema from attribute interpolations", () => {
+  it("extracts types, constraints and required fields", () => {
+    const html =
+      '<table><tr data-repeat="rows as row"><td class="status-{{ row.status:string (enum:\'ok\',\'ng\') }}" ' +
+      'colspan="{{ row.span:integer? (min:1) }}">x</td></tr></table>' +
+      '<img src="{{ logo:string }}" alt="{{ alt:string }}">';
+
+    expect(extractSchema(html)).toMatchObject({
+      properties: {
+        alt: { type: "string" },
+        rows: {
+          items: {
+            properties: {
+              status: { type: "string", enum: ["ok", "ng"] },
+              span: { type: ["integer", "null"], minimum: 1 },
+            },
+            required: ["status"],
+          },
+        },
+      },
+      required: ["alt", "logo", "rows"],
+    });
+  });
+
+  it("extracts interpolations in style", () => {
+    const schema = extractSchema('<p style="width: {{ bar.width:integer (max:100) }}px">x</p>');
+
+    expect(schema.properties).toStrictEqual({
+      bar: {
+        type: "object",
+        properties: { width: { type: "integer", maximum: 100 } },
+        required: ["width"],
+      },
+    });
+  });
+
+  it("applies meta and inline semantics", () => {
+    const html =
+      '<html><head><meta name="semantic-description:logo" content="Company logo"></head><body>' +
+      '<img src="{{ logo:string }}"><span data-semantic-instruction="Use the legal name">' +
+      '<img src="{{ logo:string }}" alt="{{ name:string }}"></span></body></html>';
+
+    expect(extractSchema(html).properties).toMatchObject({
+      logo: { description: "Company logo" },
+      name: { "x-instruction": "Use the legal name" },
+    });
+  });
+
+  it("lets validation catch missing attribute data", () => {
+    const template = compile('<div class="{{ theme:string }}">{{ title:string }}</div>');
+
+    expect(template.check({ title: "x" }).issues.map((issue) => issue.keyword)).toStrictEqual(["required"]);
+    expect(checkData({ title: "x", theme: "dark" }, template.schema()).valid).toBe(true);
+  });
+
+  it("checks attribute declarations against text declarations", () => {
+    expect(() => extractSchema('<div class="{{ state:integer }}">{{ state:string }}</div>')).toThrow(
+      SchemaExtractionError
+    );
+  });
+});
+
+describe("img src hints", () => {
+  it("only accepts data URLs the renderer keeps for a fully interpolated src", () => {
+    const html = '<img src="{{ company.logo:string }}">';
+    const schema = extractSchema(html);
+
+    expect(schema.properties.company.properties.logo).toStrictEqual({
+      type: "string",
+      pattern: "^\\s*data:\\s*(?:image\\/gif|image\\/jpeg|image\\/png|image\\/webp)\\s*[;,]",
+    });
+    expect(checkData({ company: { logo: "data:image/png;base64,AA==" } }, schema).valid).toBe(true);
+    expect(checkData({ company: { logo: "https://x.test/a.png" } }, schema).valid).toBe(false);
+    expect(checkData({ company: { logo: "data:text/html,<p>" } }, schema).valid).toBe(false);
+
+    const svg = extractSchema(html, { policy: { allowImageTypes: ["image/svg+xml"], denyImageTypes: ["image/gif"] } });
+    const data = { company: { logo: "data:image/svg+xml;base64,AA==" } };
+    expect(checkData(data, svg).valid).toBe(true);
+    expect(checkData({ company: { logo: "data:image/gif;base64,AA==" } }, svg).valid).toBe(false);
+  });
+
+  it("adds contentEncoding and contentMediaType for an interpolated base64 payload", () => {
+    const schema = extractSchema('<img src="data:image/PNG;base64,{{ stamp:string? }}">');
+
+    expect(schema.properties).toStrictEqual({
+      stamp: { type: ["string", "null"], contentEncoding: "base64", contentMediaType: "image/png" },
+    });
+  });
+
+  it("adds no hint to other attributes or mixed values", () => {
+    const schema = extractSchema(
+      '<img src="data:image/png;base64,{{ a:string }}{{ b:string }}" alt="{{ c:string }}">' +
+        '<p class="{{ d:string }}">x</p>'
+    );
+
+    for (const field of ["a", "b", "c", "d"]) {
+      expect(schema.properties).toHaveProperty([field], { type: "string" });
+    }
+  });
+
+  it("reads control attributes from the policy the template is rendered with", () => {
+    const ast = parseDslAst('<p data-semantic-description="Note {{ n:string }}">{{ x:string }}</p>');
+    const policy = { denyAttributes: ["data-semantic-description"] };
+
+    expect(extractSchemaFromAst(ast).properties).not.toHaveProperty("n");
+    expect(extractSchemaFromAst(ast, { policy }).properties).toHaveProperty("n.type", "string");
+    expect(renderAst(ast, { x: "a", n: "b" }, { policy })).toContain('data-semantic-description="Note b"');
+  });
+});
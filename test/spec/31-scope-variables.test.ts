@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { DslSyntaxError, extractSchema, lint, parseDslAst, render } from "../../src/index.js";
+
+function syntaxError(html: string): DslSyntaxError {
+  try {
+    parseDslAst(html);
+  } catch (err) {
+    expect(err).toBeInstanceOf(DslSyntaxError);
+    return err as DslSyntaxError;
+  }
+  throw new Error("expected a DslSyntaxError");
+}
+
+describe("scope variables: rendering", () => {
+  it("defines $index, $first, $last and $page, counting padding rows", () => {
+    const html =
+      '<ul><li data-repeat="items as item" data-fixed-rows="3">{{ $index:integer }}/{{ $page.number:integer }}/' +
+      '{{ $page.count:integer }}<strong data-if="$first">F</strong><em data-if="$last">L</em></li></ul>';
+
+    expect(render(html, { items: [{}, {}] })).toContain(
+      "<ul><li>0/1/3<strong>F</strong></li><li>1/2/3</li><li>2/3/3<em>L</em></li></ul>"
+    );
+  });
+
+  it("reads the enclosing iteration through $parent", () => {
+    const html =
+      '<div data-repeat="groups as group"><p data-repeat="group.items as item">' +
+      "{{ $parent.$index:integer }}.{{ $index:integer }}{{ $parent.$last:boolean }}</p></div>";
+
+    expect(render(html, { groups: [{ items: [1, 2] }, { items: [3] }] })).toContain(
+      "<div><p>0.0false</p><p>0.1false</p></div><div><p>1.0true</p></div>"
+    );
+  });
+
+  it("evaluates data-switch on a scope variable", () => {
+    const html =
+      '<p data-repeat="rows as row" data-fixed-rows="2" data-switch="$index">' +
+      '<span data-case="0">zero</span><span data-default>more</span></p>';
+
+    expect(render(html, { rows: [] })).toContain("<p><span>zero</span></p><p><span>more</span></p>");
+  });
+});
+
+describe("scope variables: schema", () => {
+  it("keeps scope variables out of the extracted schema", () => {
+    const html =
+      '<section data-page="pages as page"><p data-if="$first && $page.count > 1">{{ $page.number:integer }}</p>' +
+      '<tr data-repeat="page.rows as row" class="{{ $index:integer }}"><td data-if="!$last">' +
+      "{{ row.name:string }} {{ $parent.$page.index:integer }}</td></tr></section>";
+
+    expect(extractSchema(html).properties).toStrictEqual({
+      pages: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            rows: {
+              type: "array",
+              items: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+            },
+          },
+          required: ["rows"],
+        },
+      },
+    });
+  });
+
+  it("reports no lint findings for scope variables", () => {
+    const html = '<p data-repeat="items as item" data-if="$first">{{ $index:integer }} {{ $index:number }}</p>';
+
+    expect(lint(html)).toStrictEqual([]);
+  });
+});
+
+describe("scope variables: parse-time checks", () => {
+  it("rejects scope variables outside an iteration", () => {
+    const err = syntaxError("<div>\n<p>{{ $page.number:integer }}</p></div>");
+
+    expect(err.message).toBe('"$page.number" is only defined inside data-repeat or data-page (line 2, column 4)');
+    expect(syntaxError('<p data-if="$first">x</p>').message).toContain('"$first" is only defined inside');
+  });
+
+  it("rejects unknown members", () => {
+    expect(syntaxError('<p data-repeat="a as b">{{ $page.total:integer }}</p>').message).toContain(
+      'Unknown scope variable "$page.total"'
+    );
+    expect(syntaxError('<p data-repeat="a as b">{{ $page:integer }}</p>').message).toContain(
+      'Unknown scope variable "$page"'
+    );
+  });
+
+  it("rejects incompatible declared types", () => {
+    expect(syntaxError('<p data-repeat="a as b">{{ $first:string }}</p>').message).toContain(
+      '"$first" is a boolean and cannot be declared as string'
+    );
+    expect(syntaxError('<p data-repeat="a as b" class="{{ $index:boolean }}">x</p>').message).toBe(
+      '"$index" is an integer and cannot be declared as boolean (line 1, column 1)'
+    );
+  });
+
+  it("rejects $parent without an enclosing iteration", () => {
+    expect(syntaxError('<p data-repeat="a as b">{{ $parent.$index:integer }}</p>').message).toContain(
+      '"$parent.$index" needs 2 enclosing iterations, but there are 1'
+    );
+  });
+
+  it("rejects reserved names as aliases and iteration sources", () => {
+    expect(syntaxError('<p data-repeat="items as $index">x</p>').message).toContain(
+      '"$index" is a reserved scope variable and cannot be used as an alias'
+    );
+    expect(syntaxError('<p data-repeat="a as b"><span data-repeat="$page as p">x</span></p>').message).toContain(
+      'data-repeat cannot iterate over the scope variable "$page"'
+    );
+  });
+
+  it("checks partials where they are included", () => {
+    const registry = new Map([["row", "<td>{{ $index:integer }}</td>"]]);
+
+    const html = '<table><tr data-repeat="rows as row" data-include="row"></tr></table>';
+
+    expect(render(html, { rows: [1] }, { registry })).toContain("<tr><td>0</td></tr>");
+    expect(() => parseDslAst('<div data-include="row"></div>', { registry })).toThrow(DslSyntaxError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { compile, convertSchemaDialect, extractSchema } from "../../src/index.js";
+
+const html =
+  '<html><head><meta name="semantic-examples:code" content="A1|B2"></head><body>' +
+  "<p>{{ code:string (pattern:\"^[A-Z][0-9]$\") }} {{ note:string? (enum:'a','b') }}</p>" +
+  "<p>{{ qty:integer (exMin:0, max:10) }} {{ kind:string (fixed:'x') }} {{ due:date? }}</p>" +
+  '<img src="data:image/png;base64,{{ stamp:string }}">' +
+  '<p data-if="flag">{{ extra:string }}</p><p data-else>-</p>' +
+  '<ul data-repeat="items as item"><li>{{ item.name:string (max:20) }}</li></ul></body></html>';
+
+describe("schema dialects", () => {
+  it("defaults to draft 2020-12", () => {
+    const schema = extractSchema(html);
+
+    expect(extractSchema(html, { dialect: "2020-12" })).toStrictEqual(schema);
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(schema.properties).toMatchObject({
+      note: { type: ["string", "null"], enum: ["a", "b"] },
+      qty: { type: "integer", exclusiveMinimum: 0, maximum: 10 },
+    });
+  });
+
+  it("writes draft-07 with the same keywords", () => {
+    const { $schema, ...rest } = extractSchema(html, { dialect: "draft-07" });
+    const { $schema: _, ...latest } = extractSchema(html);
+
+    expect($schema).toBe("http://json-schema.org/draft-07/schema#");
+    expect(rest).toStrictEqual(latest);
+  });
+
+  it("writes OpenAPI 3.0 schema objects", () => {
+    const schema = extractSchema(html, { dialect: "openapi-3.0" });
+
+    expect(schema).not.toHaveProperty("$schema");
+    expect(schema.properties).toMatchObject({
+      code: { type: "string", pattern: "^[A-Z][0-9]$", example: "A1" },
+      note: { type: "string", nullable: true, enum: ["a", "b", null] },
+      qty: { type: "integer", minimum: 0, exclusiveMinimum: true, maximum: 10 },
+      kind: { type: "string", enum: ["x"] },
+      due: { type: "string", format: "date", nullable: true },
+      stamp: { type: "string", format: "byte" },
+    });
+    expect(JSON.stringify(schema)).not.toMatch(/"null"|"examples"|"const"|"contentEncoding"/);
+  });
+
+  it("keeps the tighter bound when an exclusive and an inclusive bound meet", () => {
+    const schema = { type: "object", properties: { n: { type: "number", minimum: 5, exclusiveMinimum: 1 } } };
+
+    expect(convertSchemaDialect(schema, "openapi-3.0").properties).toStrictEqual({
+      n: { type: "number", minimum: 5 },
+    });
+    expect(schema.properties.n.exclusiveMinimum).toBe(1);
+  });
+
+  it("writes the strict LLM structured-output profile", () => {
+    const schema = extractSchema(html, { dialect: "llm-strict" });
+
+    expect(schema).toStrictEqual({
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        code: { type: "string" },
+        due: { type: ["string", "null"] },
+        extra: { type: ["string", "null"] },
+        flag: { type: "boolean" },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: { name: { type: "string" } },
+            required: ["name"],
+          },
+        },
+        kind: { type: "string", const: "x" },
+        note: { type: ["string", "null"], enum: ["a", "b", null] },
+        qty: { type: "integer" },
+        stamp: { type: "string" },
+      },
+      required: ["code", "due", "extra", "flag", "items", "kind", "note", "qty", "stamp"],
+    });
+  });
+
+  it("keeps descriptions in the strict profile", () => {
+    const schema = extractSchema('<p data-semantic-description="Customer name">{{ name:string (max:5) }}</p>', {
+      dialect: "llm-strict",
+    });
+
+    expect(schema.properties).toStrictEqual({ name: { type: "string", description: "Customer name" } });
+  });
+
+  it("validates compiled templates against the 2020-12 schema", () => {
+    const template = compile(html, { dialect: "openapi-3.0" });
+
+    expect(template.schema()).toStrictEqual(extractSchema(html, { dialect: "openapi-3.0" }));
+    const data = { code: "A1", flag: false, note: null, qty: 3, kind: "x", due: null, stamp: "AA==", items: [] };
+    expect(template.check(data).valid).toBe(true);
+    expect(template.check({ ...data, qty: 0 }).issues.map((issue) => issue.keyword)).toStrictEqual([
+      "exclusiveMinimum",
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  DslSyntaxError,
+  generateTypes,
+  generateTypesFromAst,
+  parseDslAst,
+  SchemaExtractionError,
+} from "../../src/index.js";
+
+describe("generateTypes", () => {
+  it("emits nested interfaces, literal unions, nullable and optional members", () => {
+    const html =
+      '<html><head><meta name="semantic-description:customer.name" content="Legal name"></head><body>' +
+      "<p>{{ customer.name:string }} {{ customer.rank:string? (enum:'gold','silver') }} {{ issued:date }}</p>" +
+      '<section data-page="invoices as invoice"><p>{{ invoice.no:integer }}</p><table>' +
+      '<tr data-repeat="invoice.lines as line"><td>{{ line.label:string }}</td>' +
+      '<td data-semantic-description="Units billed">{{ line.qty:number? }}</td></tr></table></section>' +
+      '<p data-if="paid">{{ memo:string }}</p><p data-else>-</p></body></html>';
+
+    expect(generateTypes(html, { rootName: "Invoice" })).toBe(
+      [
+        "export interface Invoice {",
+        "  customer: InvoiceCustomer;",
+        "  invoices: InvoiceInvoice[];",
+        "  issued: string;",
+        "  memo?: string;",
+        "  paid: boolean;",
+        "}",
+        "",
+        "export interface InvoiceCustomer {",
+        "  /** Legal name */",
+        "  name: string;",
+        '  rank?: "gold" | "silver" | null;',
+        "}",
+        "",
+        "export interface InvoiceInvoice {",
+        "  lines: InvoiceInvoiceLine[];",
+        "  no: number;",
+        "}",
+        "",
+        "export interface InvoiceInvoiceLine {",
+        "  label: string;",
+        "  /** Units billed */",
+        "  qty?: number | null;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("uses switch labels and fixed values as literal types", () => {
+    const html =
+      '<p data-switch="status"><span data-case="1">one</span><span data-case="2">two</span></p>' +
+      "<p>{{ status:integer }} {{ kind:string (fixed:'memo') }}</p>";
+
+    expect(generateTypes(html)).toBe('export interface TemplateData {\n  kind: "memo";\n  status: 1 | 2;\n}\n');
+  });
+
+  it("keeps interface names unique", () => {
+    const html =
+      '<ul data-repeat="tax_lines as line"><li>{{ line.rate:number }}</li></ul>' +
+      '<ol data-repeat="taxLines as line"><li>{{ line.code:string }}</li></ol>';
+
+    expect(generateTypes(html, { rootName: "Doc" })).toBe(
+      [
+        "export interface Doc {",
+        "  tax_lines: DocTaxLine[];",
+        "  taxLines: DocTaxLine2[];",
+        "}",
+        "",
+        "export interface DocTaxLine {",
+        "  rate: number;",
+        "}",
+        "",
+        "export interface DocTaxLine2 {",
+        "  code: string;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("escapes comment terminators in descriptions", () => {
+    const ast = parseDslAst('<p data-semantic-description="a */ b">{{ x:string }}</p>');
+
+    expect(generateTypesFromAst(ast)).toContain("  /** a *\\/ b */\n  x: string;");
+  });
+
+  it("rejects invalid root names and templates", () => {
+    expect(() => generateTypes("<p>{{ x:string }}</p>", { rootName: "my data" })).toThrow(SchemaExtractionError);
+    expect(() => generateTypes("<p>{{ x:strin }}</p>")).toThrow(DslSyntaxError);
+  });
+});
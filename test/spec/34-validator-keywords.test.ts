@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { checkData } from "../../src/index.js";
+
+type Case = [description: string, data: unknown, valid: boolean];
+
+function check(schema: Record<string, unknown>, cases: Case[]): void {
+  it.each(cases)("%s", (_description, data, valid) => {
+    expect(checkData(data as Record<string, unknown>, schema).valid).toBe(valid);
+  });
+}
+
+describe("$defs and $ref", () => {
+  describe("$ref to $defs", () => {
+    check(
+      {
+        $defs: {
+          address: {
+            type: "object",
+            properties: { zip: { type: "string", pattern: "^[0-9]{3}-[0-9]{4}$" } },
+            required: ["zip"],
+          },
+        },
+        properties: { billing: { $ref: "#/$defs/address" }, shipping: { $ref: "#/$defs/address" } },
+      },
+      [
+        ["both addresses valid", { billing: { zip: "100-0001" }, shipping: { zip: "530-0001" } }, true],
+        ["second address invalid", { billing: { zip: "100-0001" }, shipping: { zip: "5300001" } }, false],
+        ["missing required property through $ref", { billing: {} }, false],
+      ]
+    );
+  });
+
+  describe("$ref with sibling keywords applies both", () => {
+    check({ $defs: { positive: { type: "integer", minimum: 1 } }, $ref: "#/$defs/positive", maximum: 10 }, [
+      ["within both bounds", 5, true],
+      ["fails the referenced schema", 0, false],
+      ["fails the sibling keyword", 11, false],
+    ]);
+  });
+
+  describe("recursive $ref through $defs", () => {
+    check(
+      {
+        $defs: {
+          node: {
+            type: "object",
+            properties: { value: { type: "integer" }, children: { type: "array", items: { $ref: "#/$defs/node" } } },
+            required: ["value"],
+          },
+        },
+        $ref: "#/$defs/node",
+      },
+      [
+        ["valid tree", { value: 1, children: [{ value: 2, children: [{ value: 3 }] }] }, true],
+        ["invalid deep node", { value: 1, children: [{ value: 2, children: [{ value: "3" }] }] }, false],
+      ]
+    );
+  });
+
+  describe("$ref to a boolean schema", () => {
+    check({ $defs: { never: false }, properties: { forbidden: { $ref: "#/$defs/never" } } }, [
+      ["property absent", {}, true],
+      ["property present", { forbidden: 1 }, false],
+    ]);
+  });
+});
+
+describe("if / then / else", () => {
+  describe("if and then without else", () => {
+    check({ if: { exclusiveMaximum: 0 }, then: { minimum: -10 } }, [
+      ["valid through then", -1, true],
+      ["invalid through then", -100, false],
+      ["valid when if test fails", 3, true],
+    ]);
+  });
+
+  describe("if and else without then", () => {
+    check({ if: { exclusiveMaximum: 0 }, else: { multipleOf: 2 } }, [
+      ["valid when if test passes", -1, true],
+      ["valid through else", 4, true],
+      ["invalid through else", 3, false],
+    ]);
+  });
+
+  describe("then vs else", () => {
+    check({ if: { exclusiveMaximum: 0 }, then: { minimum: -10 }, else: { multipleOf: 2 } }, [
+      ["valid through then", -1, true],
+      ["invalid through then", -100, false],
+      ["valid through else", 4, true],
+      ["invalid through else", 3, false],
+    ]);
+  });
+
+  describe("then and else without if are ignored", () => {
+    check({ then: { const: 0 }, else: { const: 0 } }, [
+      ["valid against lone then", 0, true],
+      ["invalid against lone then", "hello", true],
+    ]);
+  });
+
+  describe("if on object properties selects required fields", () => {
+    check(
+      {
+        type: "object",
+        properties: { kind: { enum: ["lease", "sale"] } },
+        if: { properties: { kind: { const: "lease" } }, required: ["kind"] },
+        then: { required: ["term"] },
+        else: { required: ["price"] },
+      },
+      [
+        ["lease with term", { kind: "lease", term: 12 }, true],
+        ["lease without term", { kind: "lease", price: 100 }, false],
+        ["sale with price", { kind: "sale", price: 100 }, true],
+        ["sale without price", { kind: "sale" }, false],
+      ]
+    );
+  });
+});
+
+describe("boolean schemas", () => {
+  describe("in applicators", () => {
+    check(
+      {
+        properties: { anything: true, nothing: false },
+        items: true,
+        anyOf: [false, { type: "object" }],
+        oneOf: [true, false],
+        allOf: [true],
+      },
+      [
+        ["object without the false property", { anything: [1, "a"] }, true],
+        ["object with the false property", { nothing: null }, false],
+        ["non-object fails anyOf", "text", false],
+      ]
+    );
+  });
+
+  describe("additionalProperties and items as false", () => {
+    check({ properties: { list: { type: "array", items: false } }, additionalProperties: false }, [
+      ["empty list", { list: [] }, true],
+      ["non-empty list", { list: [1] }, false],
+      ["unknown property", { other: 1 }, false],
+    ]);
+  });
+
+  describe("oneOf with overlapping nullable subschemas", () => {
+    check({ oneOf: [{ type: ["string", "null"] }, { type: ["integer", "null"] }] }, [
+      ["string matches one", "a", true],
+      ["integer matches one", 1, true],
+      ["null matches both", null, false],
+      ["boolean matches none", true, false],
+    ]);
+  });
+});
+
+describe("pattern and patternProperties match code points", () => {
+  describe("pattern", () => {
+    check({ type: "string", pattern: "^.$" }, [
+      ["one astral character", "😀", true],
+      ["one BMP character", "a", true],
+      ["two characters", "ab", false],
+    ]);
+  });
+
+  describe("patternProperties", () => {
+    check({ patternProperties: { "^.$": { type: "integer" } } }, [
+      ["astral key with a matching value", { "😀": 1 }, true],
+      ["astral key with a mismatching value", { "😀": "x" }, false],
+    ]);
+  });
+});